@@ -0,0 +1,80 @@
+import type { NextFunction, Request, Response } from "express";
+import jwt from "jsonwebtoken";
+
+declare global {
+  namespace Express {
+    interface Locals {
+      // id of the User the bearer token was issued for
+      userId: string;
+      // roles granted by the token's `roles` claim, e.g. operator
+      roles: string[];
+    }
+  }
+}
+
+export type AuthOptions = {
+  // key the tokens are signed with
+  jwtSecret: string;
+  algorithm: jwt.Algorithm;
+  // accept the token as `access_token` query parameter,
+  // for EventSource, which can not set headers
+  allowQueryToken?: boolean;
+};
+
+/**
+ * Creates a middleware that verifies the bearer token of a request and
+ * stores its subject, the id of the calling user, in `res.locals.userId`
+ * and its roles in `res.locals.roles`.
+ */
+export const createAuthenticate =
+  ({ jwtSecret, algorithm, allowQueryToken = false }: AuthOptions) =>
+  <P>(req: Request<P>, res: Response, next: NextFunction): void => {
+    const [scheme, token] =
+      allowQueryToken && typeof req.query.access_token === "string"
+        ? ["Bearer", req.query.access_token]
+        : (req.headers.authorization?.split(" ") ?? []);
+
+    if (scheme !== "Bearer" || !token) {
+      res.status(401).json({ error: "Bearer token is required" });
+      return;
+    }
+
+    try {
+      const payload = jwt.verify(token, jwtSecret, {
+        algorithms: [algorithm]
+      });
+
+      if (typeof payload === "string" || !payload.sub) {
+        res.status(401).json({ error: "Token has no subject" });
+        return;
+      }
+
+      res.locals.userId = payload.sub;
+      res.locals.roles = Array.isArray(payload.roles)
+        ? payload.roles.filter(
+            (role): role is string => typeof role === "string"
+          )
+        : [];
+      next();
+    } catch (error) {
+      if (error instanceof jwt.JsonWebTokenError) {
+        res.status(401).json({ error: error.message });
+        return;
+      }
+      next(error);
+    }
+  };
+
+/**
+ * Creates a middleware that only lets requests through whose token grants
+ * `role`, answers 403 otherwise. Runs after the authenticate middleware.
+ */
+export const requireRole =
+  (role: string) =>
+  <P>(_req: Request<P>, res: Response, next: NextFunction): void => {
+    if (!res.locals.roles?.includes(role)) {
+      res.status(403).json({ error: `The ${role} role is required` });
+      return;
+    }
+    next();
+  };
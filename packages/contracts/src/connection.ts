@@ -0,0 +1,209 @@
+import amqp, { type ConfirmChannel, type Connection } from "amqplib";
+import type { Consumer } from "./consume";
+import type { ServiceLogger } from "observability";
+import { assertTopology } from "./topology";
+
+export type RabbitConnectionOptions = {
+  url: string;
+  prefetch: number;
+  // delay before the first reconnect, doubled on every failed attempt
+  retryInterval: number;
+  maxRetryInterval: number;
+};
+
+/**
+ * Registers a consumer on a fresh channel, e.g. by calling `consumeMessages`.
+ */
+export type ConsumerSetup = (channel: ConfirmChannel) => Promise<Consumer>;
+
+export type RabbitConnection = {
+  // the current channel, undefined while reconnecting
+  getChannel: () => ConfirmChannel | undefined;
+  // number of consumers attached to the current channel and registered in total
+  getConsumerCount: () => { attached: number; registered: number };
+  // the consumer is attached now if connected and again after every reconnect
+  addConsumer: (setup: ConsumerSetup) => Promise<void>;
+  connect: () => void;
+  // stops reconnecting, cancels the consumers and waits for their handlers
+  stopConsuming: () => Promise<void>;
+  // waits for unconfirmed publishes, then closes the channel and connection
+  close: () => Promise<void>;
+};
+
+/**
+ * Keeps one connection with one confirm channel open.
+ * When either closes unexpectedly, or a setup step fails, it reconnects with
+ * exponential backoff and jitter. Every new channel gets the prefetch,
+ * the topology and all registered consumers.
+ */
+export const createRabbitConnection = (
+  { url, prefetch, retryInterval, maxRetryInterval }: RabbitConnectionOptions,
+  logger: ServiceLogger
+): RabbitConnection => {
+  const consumers: ConsumerSetup[] = [];
+  // consumers attached to the current channel
+  let active: Consumer[] = [];
+
+  let connection: Connection | undefined;
+  let channel: ConfirmChannel | undefined;
+  let attempt = 0;
+  let timer: NodeJS.Timeout | undefined;
+  let closing = false;
+
+  const scheduleReconnect = () => {
+    if (closing || timer) {
+      return;
+    }
+
+    // exponential backoff with 50-100% jitter, so restarted services do not reconnect in lockstep
+    const backoff = Math.min(retryInterval * 2 ** attempt, maxRetryInterval);
+    const delay = Math.round(backoff * (0.5 + Math.random() / 2));
+    attempt++;
+
+    logger.info(`Reconnecting to RabbitMQ in ${delay}ms (attempt ${attempt})`);
+
+    timer = setTimeout(() => {
+      timer = undefined;
+      void open();
+    }, delay);
+  };
+
+  // drops the connection once, the first close event schedules the reconnect
+  const reset = (current: Connection) => {
+    if (connection !== current) {
+      return;
+    }
+
+    connection = undefined;
+    channel = undefined;
+    active = [];
+
+    current.close().catch(() => {
+      // already closed
+    });
+
+    scheduleReconnect();
+  };
+
+  const open = async () => {
+    logger.info("Trying to connect to RabbitMQ...");
+
+    let current: Connection;
+
+    try {
+      current = await amqp.connect(url);
+    } catch (error) {
+      logger.error(
+        `Unable to connect to RabbitMQ: ${error instanceof Error ? error.message : error}`
+      );
+      scheduleReconnect();
+      return;
+    }
+
+    connection = current;
+
+    current.on("error", (error: Error) => {
+      logger.error(`RabbitMQ connection error: ${error.message}`);
+    });
+
+    current.on("close", () => {
+      if (!closing) {
+        logger.warn("RabbitMQ connection closed");
+      }
+      reset(current);
+    });
+
+    try {
+      const next = await current.createConfirmChannel();
+
+      next.on("error", (error: Error) => {
+        logger.error(`RabbitMQ channel error: ${error.message}`);
+      });
+
+      // a channel closed by the broker takes the connection with it
+      next.on("close", () => {
+        if (!closing) {
+          logger.warn("RabbitMQ channel closed");
+        }
+        reset(current);
+      });
+
+      await next.prefetch(prefetch);
+      await assertTopology(next);
+
+      const attached: Consumer[] = [];
+
+      for (const setup of consumers) {
+        attached.push(await setup(next));
+      }
+
+      // the connection dropped while the channel was set up
+      if (connection !== current) {
+        return;
+      }
+
+      channel = next;
+      active = attached;
+      attempt = 0;
+
+      logger.info("Successfully connected to RabbitMQ");
+    } catch (error) {
+      logger.error(
+        `Unable to set up RabbitMQ channel: ${error instanceof Error ? error.message : error}`
+      );
+      reset(current);
+    }
+  };
+
+  return {
+    getChannel: () => channel,
+    getConsumerCount: () => ({
+      attached: active.length,
+      registered: consumers.length
+    }),
+    addConsumer: async (setup) => {
+      consumers.push(setup);
+
+      if (channel) {
+        active.push(await setup(channel));
+      }
+    },
+    connect: () => {
+      closing = false;
+      void open();
+    },
+    stopConsuming: async () => {
+      closing = true;
+      clearTimeout(timer);
+      timer = undefined;
+
+      await Promise.all(
+        active.map((consumer) =>
+          consumer.cancel().catch((error) => {
+            logger.error(
+              `Unable to cancel consumer ${consumer.consumerTag}: ${error instanceof Error ? error.message : error}`
+            );
+          })
+        )
+      );
+      active = [];
+    },
+    close: async () => {
+      closing = true;
+      clearTimeout(timer);
+      timer = undefined;
+
+      const current = connection;
+      const currentChannel = channel;
+      connection = undefined;
+      channel = undefined;
+      active = [];
+
+      if (currentChannel) {
+        await currentChannel.waitForConfirms();
+        await currentChannel.close();
+      }
+      await current?.close();
+    }
+  };
+};
@@ -0,0 +1,214 @@
+import { SpanKind } from "@opentelemetry/api";
+import type { Channel, ConsumeMessage } from "amqplib";
+import type { Prisma, PrismaClient } from "@prisma/client";
+import {
+  extractTraceContext,
+  markSpanFailed,
+  runWithLogContext,
+  setLogContext,
+  withSpan,
+  type ConsumeOutcome,
+  type MessagingMetrics,
+  type ServiceLogger
+} from "observability";
+import { recordInboxMessage } from "./inbox";
+import { parseMessage, type QueueMessage } from "./messages";
+
+/**
+ * Runs inside the transaction that records the message in the inbox,
+ * all side effects have to go through `tx`.
+ */
+export type MessageHandler = (
+  message: QueueMessage,
+  tx: Prisma.TransactionClient,
+  raw: ConsumeMessage
+) => Promise<void>;
+
+export type Consumer = {
+  consumerTag: string;
+  // stops the delivery of new messages and waits for the ones being handled
+  cancel: () => Promise<void>;
+};
+
+export type ConsumeOptions = {
+  queue: string;
+  prisma: PrismaClient;
+  logger: ServiceLogger;
+  // called once a new message was committed and acked, failures are only logged
+  onHandled?: (message: QueueMessage) => void | Promise<void>;
+  // of the inbox transaction, for handlers that wait on slow calls
+  transaction?: { timeout?: number; maxWait?: number };
+  metrics?: MessagingMetrics;
+};
+
+/**
+ * Consumes a queue with manual acknowledgements and inbox deduplication.
+ *
+ * - handled messages are acked
+ * - messages already handled by this queue are acked and skipped
+ * - malformed messages and messages without a message id are rejected
+ *   straight to the dead-letter queue
+ * - a failing handler gets one redelivery, the second failure is dead-lettered
+ * - `onHandled` runs after the ack of a new message, for work that must only
+ *   see committed state, like notifying clients
+ * - `cancel` on the returned consumer resolves once the handlers in flight
+ *   are done, so a shutdown does not cut them off
+ */
+export const consumeMessages = async (
+  channel: Channel,
+  { queue, prisma, logger, onHandled, metrics, transaction }: ConsumeOptions,
+  handler: MessageHandler
+): Promise<Consumer> => {
+  // a channel that closed mid-handler can not settle anymore,
+  // the broker redelivers the message on the next channel
+  const settle = (settleMessage: () => void) => {
+    try {
+      settleMessage();
+    } catch (error) {
+      logger.warn(
+        `Could not settle message from ${queue}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  };
+
+  const handle = async (msg: ConsumeMessage): Promise<void> => {
+    const messageId: unknown = msg.properties.messageId;
+    const labels = { queue, type: msg.fields.routingKey };
+    const startedAt = Date.now();
+
+    const record = (outcome: ConsumeOutcome) => {
+      metrics?.consumed.inc({ ...labels, outcome });
+      metrics?.handlerDuration.observe(labels, Date.now() - startedAt);
+
+      if (outcome === "rejected" || outcome === "dead_lettered") {
+        metrics?.deadLettered.inc({
+          ...labels,
+          reason: outcome === "rejected" ? "rejected" : "failed"
+        });
+      }
+    };
+
+    if (msg.fields.redelivered) {
+      metrics?.redelivered.inc(labels);
+    }
+
+    let parsedMessage: QueueMessage;
+    try {
+      if (typeof messageId !== "string" || messageId === "") {
+        throw new Error("Message has no message id");
+      }
+
+      parsedMessage = parseMessage(msg.content);
+      setLogContext({ orderId: parsedMessage.data.orderId });
+    } catch (error) {
+      markSpanFailed(error);
+      logger.error(
+        `Rejecting message from ${queue}: ${error instanceof Error ? error.message : error}`
+      );
+      settle(() => channel.nack(msg, false, false));
+      record("rejected");
+      return;
+    }
+
+    let handled: boolean;
+    try {
+      handled = await prisma.$transaction(async (tx) => {
+        const isNew = await recordInboxMessage(
+          tx,
+          queue,
+          messageId,
+          parsedMessage.message
+        );
+
+        if (!isNew) {
+          return false;
+        }
+
+        await handler(parsedMessage, tx, msg);
+        return true;
+      }, transaction);
+
+      if (!handled) {
+        logger.info(
+          `Skipping duplicate ${parsedMessage.message} ${messageId} from ${queue}`
+        );
+      }
+
+      settle(() => channel.ack(msg));
+      record(handled ? "handled" : "duplicate");
+    } catch (error) {
+      markSpanFailed(error);
+      const requeue = !msg.fields.redelivered;
+
+      logger.error(
+        `Failed to handle ${parsedMessage.message} ${messageId} from ${queue} (${
+          requeue ? "requeued" : "dead-lettered"
+        }): ${error instanceof Error ? error.message : error}`
+      );
+      settle(() => channel.nack(msg, false, requeue));
+      record(requeue ? "requeued" : "dead_lettered");
+      return;
+    }
+
+    if (handled && onHandled) {
+      try {
+        await onHandled(parsedMessage);
+      } catch (error) {
+        logger.error(
+          `Failed to run after handling ${parsedMessage.message} ${messageId} from ${queue}: ${
+            error instanceof Error ? error.message : error
+          }`
+        );
+      }
+    }
+  };
+
+  const inFlight = new Set<Promise<void>>();
+
+  const { consumerTag } = await channel.consume(
+    queue,
+    (msg) => {
+      // consumer was cancelled by the broker
+      if (!msg) {
+        logger.warn(`Consumer for ${queue} was cancelled`);
+        return;
+      }
+
+      // continues the trace and the correlation id of the publish
+      const correlationId: unknown =
+        msg.properties.correlationId ?? msg.properties.messageId;
+      const handling = runWithLogContext(
+        typeof correlationId === "string" ? { correlationId } : {},
+        () =>
+          withSpan(
+            `${queue} process`,
+            {
+              kind: SpanKind.CONSUMER,
+              attributes: {
+                "messaging.system": "rabbitmq",
+                "messaging.operation.type": "process",
+                "messaging.destination.name": queue,
+                "messaging.rabbitmq.destination.routing_key":
+                  msg.fields.routingKey,
+                "messaging.message.id": String(msg.properties.messageId)
+              }
+            },
+            extractTraceContext(msg.properties.headers),
+            () => handle(msg)
+          )
+      ).finally(() => inFlight.delete(handling));
+      inFlight.add(handling);
+    },
+    {
+      noAck: false
+    }
+  );
+
+  return {
+    consumerTag,
+    cancel: async () => {
+      await channel.cancel(consumerTag);
+      await Promise.allSettled(inFlight);
+    }
+  };
+};
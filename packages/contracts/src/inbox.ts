@@ -0,0 +1,29 @@
+import type { Prisma } from "@prisma/client";
+import type { MessageTypes } from "./messages";
+
+/**
+ * Records a message as handled by `consumer`. Call it first in the
+ * transaction of the handler's side effects.
+ * Returns false if the message was already handled, the handler must skip it then.
+ * A concurrent delivery of the same message waits for the first transaction
+ * and then sees it as a duplicate.
+ */
+export const recordInboxMessage = async (
+  tx: Prisma.TransactionClient,
+  consumer: string,
+  messageId: string,
+  type: MessageTypes
+): Promise<boolean> => {
+  const { count } = await tx.inboxMessage.createMany({
+    data: [
+      {
+        consumer,
+        messageId,
+        type
+      }
+    ],
+    skipDuplicates: true
+  });
+
+  return count === 1;
+};
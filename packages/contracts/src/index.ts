@@ -0,0 +1,8 @@
+export * from "./messages";
+export * from "./responses";
+export * from "./publish";
+export * from "./consume";
+export * from "./connection";
+export * from "./topology";
+export * from "./outbox";
+export * from "./inbox";
@@ -0,0 +1,263 @@
+import Joi from "joi";
+
+export type PaymentStatus = "success" | "failed";
+
+export type OrderStatus =
+  | "created"
+  | "paid"
+  | "fulfilled"
+  | "canceled"
+  | "refunded";
+
+export const messageTypes = [
+  "order.created",
+  "inventory.checked",
+  "payment.processed",
+  "inventory.committed",
+  "order.canceled",
+  "payment.refunded",
+  "order.fulfilled",
+  "payment.voided",
+  "order.cancel_requested"
+] as const;
+
+export type MessageTypes = (typeof messageTypes)[number];
+
+export type OrderItem = {
+  productId: string;
+  quantity: number;
+};
+
+export const paymentMethods = ["wallet", "card"] as const;
+
+// how the customer pays an order, payment-service picks the provider by it
+export type PaymentMethod = (typeof paymentMethods)[number];
+
+export type OrderCreatedMessage = {
+  orderId: string;
+  // one entry per product
+  items: OrderItem[];
+};
+
+export type InventoryCheckedMessage = {
+  orderId: string;
+  isAvailable: boolean;
+};
+
+export type PaymentProcessedMessage = {
+  orderId: string;
+  status: PaymentStatus;
+  // amount authorized, captured once the order is fulfilled,
+  // 0 when the payment failed
+  amount: number;
+};
+
+export type InventoryCommittedMessage = {
+  orderId: string;
+  // false when the stock could not be decremented
+  success: boolean;
+};
+
+export type OrderCanceledMessage = {
+  orderId: string;
+  reason: string;
+  // compensating actions for the saga steps that already succeeded
+  compensate: {
+    releaseInventory: boolean;
+    restock: boolean;
+    refundAmount: number;
+  };
+};
+
+export type PaymentRefundedMessage = {
+  orderId: string;
+  // amount refunded by this refund
+  amount: number;
+  // amount refunded so far, including this refund
+  refundedAmount: number;
+  // the whole payment is refunded, the order is reverted
+  fullyRefunded: boolean;
+  reason: string;
+};
+
+export type OrderFulfilledMessage = {
+  orderId: string;
+};
+
+export type PaymentVoidedMessage = {
+  orderId: string;
+  // amount that was authorized and is released again
+  amount: number;
+  reason: string;
+};
+
+export type OrderCancelRequestedMessage = {
+  orderId: string;
+  reason: string;
+};
+
+export type QueueMessage =
+  | { message: "order.created"; data: OrderCreatedMessage }
+  | { message: "inventory.checked"; data: InventoryCheckedMessage }
+  | { message: "payment.processed"; data: PaymentProcessedMessage }
+  | { message: "inventory.committed"; data: InventoryCommittedMessage }
+  | { message: "order.canceled"; data: OrderCanceledMessage }
+  | { message: "payment.refunded"; data: PaymentRefundedMessage }
+  | { message: "order.fulfilled"; data: OrderFulfilledMessage }
+  | { message: "payment.voided"; data: PaymentVoidedMessage }
+  | { message: "order.cancel_requested"; data: OrderCancelRequestedMessage };
+
+/**
+ * Thrown when a payload does not match the message contract,
+ * either on the way out (publish) or on the way in (consume).
+ */
+export class MessageValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly details: string[] = []
+  ) {
+    super(message);
+    this.name = "MessageValidationError";
+  }
+}
+
+// ========================================
+// schemas
+// ========================================
+
+export const orderItemSchema = Joi.object<OrderItem>().keys({
+  productId: Joi.string().required(),
+  quantity: Joi.number().integer().min(1).required()
+});
+
+const orderCreatedSchema = Joi.object<OrderCreatedMessage>().keys({
+  orderId: Joi.string().required(),
+  items: Joi.array()
+    .items(orderItemSchema)
+    .min(1)
+    .unique("productId")
+    .required()
+});
+
+const inventoryCheckedSchema = Joi.object<InventoryCheckedMessage>().keys({
+  orderId: Joi.string().required(),
+  isAvailable: Joi.boolean().strict().required()
+});
+
+const paymentProcessedSchema = Joi.object<PaymentProcessedMessage>().keys({
+  orderId: Joi.string().required(),
+  status: Joi.string().valid("success", "failed").required(),
+  amount: Joi.number().min(0).required()
+});
+
+const inventoryCommittedSchema = Joi.object<InventoryCommittedMessage>().keys({
+  orderId: Joi.string().required(),
+  success: Joi.boolean().strict().required()
+});
+
+const orderCanceledSchema = Joi.object<OrderCanceledMessage>().keys({
+  orderId: Joi.string().required(),
+  reason: Joi.string().required(),
+  compensate: Joi.object()
+    .keys({
+      releaseInventory: Joi.boolean().strict().required(),
+      restock: Joi.boolean().strict().required(),
+      refundAmount: Joi.number().min(0).required()
+    })
+    .required()
+});
+
+const paymentRefundedSchema = Joi.object<PaymentRefundedMessage>().keys({
+  orderId: Joi.string().required(),
+  amount: Joi.number().greater(0).required(),
+  refundedAmount: Joi.number().greater(0).required(),
+  fullyRefunded: Joi.boolean().strict().required(),
+  reason: Joi.string().required()
+});
+
+const orderFulfilledSchema = Joi.object<OrderFulfilledMessage>().keys({
+  orderId: Joi.string().required()
+});
+
+const paymentVoidedSchema = Joi.object<PaymentVoidedMessage>().keys({
+  orderId: Joi.string().required(),
+  amount: Joi.number().greater(0).required(),
+  reason: Joi.string().required()
+});
+
+const orderCancelRequestedSchema =
+  Joi.object<OrderCancelRequestedMessage>().keys({
+    orderId: Joi.string().required(),
+    reason: Joi.string().required()
+  });
+
+const queueMessageSchema = Joi.object<QueueMessage>().keys({
+  message: Joi.string()
+    .valid(...messageTypes)
+    .required(),
+  data: Joi.alternatives()
+    .conditional("message", {
+      switch: [
+        { is: "order.created", then: orderCreatedSchema },
+        { is: "inventory.checked", then: inventoryCheckedSchema },
+        { is: "payment.processed", then: paymentProcessedSchema },
+        { is: "inventory.committed", then: inventoryCommittedSchema },
+        { is: "order.canceled", then: orderCanceledSchema },
+        { is: "payment.refunded", then: paymentRefundedSchema },
+        { is: "order.fulfilled", then: orderFulfilledSchema },
+        { is: "payment.voided", then: paymentVoidedSchema },
+        { is: "order.cancel_requested", then: orderCancelRequestedSchema }
+      ]
+    })
+    .required()
+});
+
+// ========================================
+// validators
+// ========================================
+
+/**
+ * Validates an already decoded value against the message contract.
+ * Unknown keys are stripped so consumers only ever see declared fields.
+ */
+export const validateMessage = (value: unknown): QueueMessage => {
+  const { value: validated, error } = queueMessageSchema
+    .prefs({ errors: { label: "path" } })
+    .validate(value, { abortEarly: false, stripUnknown: true });
+
+  if (error) {
+    const details = error.details.map((detail) => detail.message);
+
+    throw new MessageValidationError(
+      `Invalid queue message: ${details.join(", ")}`,
+      details
+    );
+  }
+
+  return validated as QueueMessage;
+};
+
+/**
+ * Decodes and validates the raw content of an AMQP message.
+ */
+export const parseMessage = (content: Buffer): QueueMessage => {
+  let decoded: unknown;
+
+  try {
+    decoded = JSON.parse(content.toString());
+  } catch (error) {
+    throw new MessageValidationError(
+      `Message is not valid JSON: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  return validateMessage(decoded);
+};
+
+/**
+ * Validates a message before it leaves the service and encodes it
+ * for `channel.publish`.
+ */
+export const serializeMessage = (message: QueueMessage): Buffer => {
+  return Buffer.from(JSON.stringify(validateMessage(message)));
+};
@@ -0,0 +1,177 @@
+import type { ConfirmChannel } from "amqplib";
+import type { Prisma, PrismaClient } from "@prisma/client";
+import {
+  getLogContext,
+  injectTraceContext,
+  withoutTracing,
+  withTraceContext,
+  type MessagingMetrics,
+  type ServiceLogger
+} from "observability";
+import { validateMessage, type QueueMessage } from "./messages";
+import { publishMessage } from "./publish";
+
+export type OutboxStatus = "pending" | "sent" | "failed";
+
+export type OutboxRelayOptions = {
+  // service name, matches the `source` the service enqueues with
+  source: string;
+  pollInterval: number;
+  batchSize: number;
+  // after this many failed publishes a row is marked `failed` and left alone
+  maxAttempts: number;
+  // how long to wait for the broker to confirm a message
+  publishTimeout: number;
+  metrics?: MessagingMetrics;
+};
+
+export type OutboxRelay = {
+  stop: () => Promise<void>;
+};
+
+/**
+ * Writes a message to the outbox. Call it with the transaction client of the
+ * state change the message describes, so both are committed or neither is.
+ * The active trace context and correlation id are stored with it, so the
+ * publish joins the trace and its consumers log under the same correlation id.
+ */
+export const enqueueMessage = async (
+  tx: Prisma.TransactionClient,
+  source: string,
+  message: QueueMessage
+): Promise<void> => {
+  await tx.outboxMessage.create({
+    data: {
+      source,
+      type: message.message,
+      orderId: message.data.orderId,
+      payload: validateMessage(message) as Prisma.InputJsonObject,
+      traceContext: injectTraceContext(),
+      correlationId: getLogContext().correlationId ?? null
+    }
+  });
+};
+
+/**
+ * Polls the outbox for pending rows of `source` and publishes them in the
+ * order they were written. A row is only marked `sent` once the broker
+ * confirmed it, nacks and timeouts are retried with exponential backoff.
+ * Later rows of the same order wait for a row that waits for its retry,
+ * until it is sent or marked `failed`, rows of other orders go on.
+ * Delivery is at-least-once: a crash between publish and update re-sends
+ * the row.
+ */
+export const startOutboxRelay = (
+  prisma: PrismaClient,
+  getChannel: () => ConfirmChannel | undefined,
+  logger: ServiceLogger,
+  options: OutboxRelayOptions
+): OutboxRelay => {
+  let stopped = false;
+  let timer: NodeJS.Timeout | undefined;
+  let running: Promise<void> = Promise.resolve();
+
+  const relayBatch = async () => {
+    const channel = getChannel();
+
+    if (!channel) {
+      return;
+    }
+
+    const rows = await prisma.outboxMessage.findMany({
+      where: {
+        source: options.source,
+        status: "pending" satisfies OutboxStatus
+      },
+      orderBy: {
+        sequence: "asc"
+      },
+      take: options.batchSize
+    });
+
+    // orders whose oldest pending row waits for its retry,
+    // their later rows must not overtake it
+    const held = new Set<string>();
+
+    for (const row of rows) {
+      if (held.has(row.orderId) || row.nextAttemptAt > new Date()) {
+        held.add(row.orderId);
+        continue;
+      }
+
+      try {
+        // the row id is the message id, a re-sent row is deduplicated by consumers
+        await withTraceContext(row.traceContext, () =>
+          publishMessage(channel, validateMessage(row.payload), row.id, {
+            appId: row.source,
+            correlationId: row.correlationId ?? undefined,
+            timeout: options.publishTimeout,
+            metrics: options.metrics
+          })
+        );
+
+        await prisma.outboxMessage.update({
+          where: {
+            id: row.id
+          },
+          data: {
+            status: "sent" satisfies OutboxStatus,
+            attempts: row.attempts + 1,
+            sentAt: new Date()
+          }
+        });
+      } catch (error) {
+        const attempts = row.attempts + 1;
+        const lastError =
+          error instanceof Error ? error.message : String(error);
+        const failed = attempts >= options.maxAttempts;
+
+        logger.error(
+          `Failed to relay outbox message ${row.id} (${row.type}), attempt ${attempts}: ${lastError}`
+        );
+
+        await prisma.outboxMessage.update({
+          where: {
+            id: row.id
+          },
+          data: {
+            status: (failed ? "failed" : "pending") satisfies OutboxStatus,
+            attempts,
+            lastError,
+            nextAttemptAt: new Date(
+              Date.now() + options.pollInterval * 2 ** attempts
+            )
+          }
+        });
+
+        // the later rows of the order wait until this one is sent or failed
+        held.add(row.orderId);
+      }
+    }
+  };
+
+  const tick = () => {
+    // polling is not traced, only the publishes of rows that carry a trace
+    running = withoutTracing(relayBatch)
+      .catch((error) => {
+        logger.error(
+          `Outbox relay for ${options.source} failed: ${error instanceof Error ? error.message : error}`
+        );
+      })
+      .finally(() => {
+        if (!stopped) {
+          timer = setTimeout(tick, options.pollInterval);
+        }
+      });
+  };
+
+  tick();
+
+  return {
+    stop: async () => {
+      stopped = true;
+      clearTimeout(timer);
+      await running;
+    }
+  };
+};
@@ -0,0 +1,117 @@
+import { randomUUID } from "crypto";
+import { once } from "events";
+import { context, SpanKind } from "@opentelemetry/api";
+import type { ConfirmChannel } from "amqplib";
+import { serializeMessage, type QueueMessage } from "./messages";
+import {
+  injectTraceContext,
+  withSpan,
+  type MessagingMetrics
+} from "observability";
+import { topology } from "./topology";
+
+// thrown when the broker nacks a message or does not confirm it in time
+export class PublishError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PublishError";
+  }
+}
+
+export type PublishOptions = {
+  // names the publishing service
+  appId?: string;
+  // ties the message to the request that caused it
+  correlationId?: string | undefined;
+  // how long to wait for the broker ack, including a full write buffer
+  timeout?: number;
+  metrics?: MessagingMetrics | undefined;
+};
+
+const withTimeout = <T>(
+  promise: Promise<T>,
+  timeout: number,
+  message: string
+): Promise<T> => {
+  let timer: NodeJS.Timeout | undefined;
+
+  return Promise.race([
+    promise,
+    new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(() => reject(new PublishError(message)), timeout);
+    })
+  ]).finally(() => clearTimeout(timer));
+};
+
+/**
+ * Validates and publishes a message to the order exchange,
+ * routed by its message type.
+ * Consumers deduplicate by `messageId`, a retried publish has to reuse it.
+ * Resolves once the broker acked the message. If the write buffer is full
+ * it also waits for the channel to drain. Rejects with a `PublishError`
+ * when the broker nacks the message or `timeout` passes first.
+ * The publish is traced below the active span, its trace context
+ * travels in the message headers.
+ */
+export const publishMessage = (
+  channel: ConfirmChannel,
+  message: QueueMessage,
+  messageId: string = randomUUID(),
+  { appId, correlationId, timeout = 5000, metrics }: PublishOptions = {}
+): Promise<void> =>
+  withSpan(
+    `${message.message} publish`,
+    {
+      kind: SpanKind.PRODUCER,
+      attributes: {
+        "messaging.system": "rabbitmq",
+        "messaging.operation.type": "publish",
+        "messaging.destination.name": topology.exchange,
+        "messaging.rabbitmq.destination.routing_key": message.message,
+        "messaging.message.id": messageId
+      }
+    },
+    context.active(),
+    async () => {
+      let sent = true;
+
+      const confirmed = new Promise<void>((resolve, reject) => {
+        sent = channel.publish(
+          topology.exchange,
+          message.message,
+          serializeMessage(message),
+          {
+            contentType: "application/json",
+            type: message.message,
+            messageId,
+            appId,
+            correlationId,
+            headers: injectTraceContext()
+          },
+          (error) => {
+            if (error) {
+              reject(
+                new PublishError(
+                  `${message.message} ${messageId} was nacked by the broker`
+                )
+              );
+              return;
+            }
+            resolve();
+          }
+        );
+      });
+
+      try {
+        await withTimeout(
+          Promise.all([confirmed, sent ? undefined : once(channel, "drain")]),
+          timeout,
+          `${message.message} ${messageId} was not confirmed within ${timeout}ms`
+        );
+        metrics?.published.inc({ type: message.message, outcome: "confirmed" });
+      } catch (error) {
+        metrics?.published.inc({ type: message.message, outcome: "failed" });
+        throw error;
+      }
+    }
+  );
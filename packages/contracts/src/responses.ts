@@ -0,0 +1,16 @@
+import type { OrderStatus, PaymentStatus } from "./messages";
+
+export type CheckInventoryResponse = {
+  orderId: string;
+  isAvailable: boolean;
+};
+
+export type CreateTrackerResponse = {
+  trackerId: string;
+  status: OrderStatus;
+};
+
+export type PaymentProcessedResponse = {
+  orderId: string;
+  status: PaymentStatus;
+};
@@ -0,0 +1,86 @@
+import type { Channel } from "amqplib";
+import type { MessageTypes } from "./messages";
+
+type QueueDefinition = {
+  name: string;
+  // message types routed into the queue, the routing key is the message type
+  bindings: readonly MessageTypes[];
+};
+
+/**
+ * The RabbitMQ topology shared by all services.
+ * Every service declares all of it on connect, so start order does not matter.
+ */
+export const topology = {
+  exchange: "order-exchange",
+  deadLetterExchange: "order-exchange.dlx",
+  queues: {
+    order: {
+      name: "order-queue",
+      bindings: [
+        "inventory.checked",
+        "payment.processed",
+        "inventory.committed",
+        "payment.voided",
+        "order.cancel_requested",
+        "payment.refunded"
+      ]
+    },
+    inventory: {
+      name: "inventory-queue",
+      bindings: [
+        "order.created",
+        "payment.processed",
+        "order.canceled",
+        "payment.refunded"
+      ]
+    },
+    payment: {
+      name: "payment-queue",
+      bindings: ["inventory.checked", "order.canceled", "order.fulfilled"]
+    },
+    tracking: {
+      name: "track-queue",
+      bindings: [
+        "order.created",
+        "payment.processed",
+        "order.canceled",
+        "payment.refunded",
+        "order.fulfilled"
+      ]
+    }
+  }
+} as const satisfies {
+  exchange: string;
+  deadLetterExchange: string;
+  queues: Record<string, QueueDefinition>;
+};
+
+/**
+ * Declares the exchanges, queues, dead-letter queues and bindings.
+ * Rejected messages are routed by their source queue name into <queue>.dlq.
+ */
+export const assertTopology = async (channel: Channel): Promise<void> => {
+  await channel.assertExchange(topology.exchange, "topic", {
+    durable: true
+  });
+
+  await channel.assertExchange(topology.deadLetterExchange, "direct", {
+    durable: true
+  });
+
+  for (const { name, bindings } of Object.values(topology.queues)) {
+    const dlq = await channel.assertQueue(`${name}.dlq`);
+
+    await channel.bindQueue(dlq.queue, topology.deadLetterExchange, name);
+
+    const q = await channel.assertQueue(name, {
+      deadLetterExchange: topology.deadLetterExchange,
+      deadLetterRoutingKey: name
+    });
+
+    for (const routingKey of bindings) {
+      await channel.bindQueue(q.queue, topology.exchange, routingKey);
+    }
+  }
+};
@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  MessageValidationError,
+  parseMessage,
+  serializeMessage,
+  type QueueMessage
+} from "../src/messages";
+
+const encode = (value: unknown): Buffer => Buffer.from(JSON.stringify(value));
+
+describe("parseMessage", () => {
+  it("returns a message that matches its contract", () => {
+    const message = parseMessage(
+      encode({
+        message: "order.created",
+        data: { orderId: "o1", items: [{ productId: "p1", quantity: 2 }] }
+      })
+    );
+
+    assert.deepEqual(message, {
+      message: "order.created",
+      data: { orderId: "o1", items: [{ productId: "p1", quantity: 2 }] }
+    });
+  });
+
+  it("strips keys the contract does not declare", () => {
+    const message = parseMessage(
+      encode({
+        message: "inventory.checked",
+        data: { orderId: "o1", isAvailable: true, warehouse: "north" },
+        sentBy: "inventory-service"
+      })
+    );
+
+    assert.deepEqual(message, {
+      message: "inventory.checked",
+      data: { orderId: "o1", isAvailable: true }
+    });
+  });
+
+  it("rejects content that is not JSON", () => {
+    assert.throws(
+      () => parseMessage(Buffer.from("{not json")),
+      MessageValidationError
+    );
+  });
+
+  it("rejects unknown message types", () => {
+    assert.throws(
+      () => parseMessage(encode({ message: "order.lost", data: {} })),
+      MessageValidationError
+    );
+  });
+
+  it("rejects data that does not match the message type", () => {
+    assert.throws(
+      () =>
+        parseMessage(
+          encode({
+            message: "order.created",
+            data: { orderId: "o1", items: [{ productId: "p1", quantity: 0 }] }
+          })
+        ),
+      (error: unknown) =>
+        error instanceof MessageValidationError &&
+        error.details.some((detail) => detail.includes("quantity"))
+    );
+  });
+
+  it("rejects an order.created that lists a product twice", () => {
+    assert.throws(
+      () =>
+        parseMessage(
+          encode({
+            message: "order.created",
+            data: {
+              orderId: "o1",
+              items: [
+                { productId: "p1", quantity: 1 },
+                { productId: "p1", quantity: 2 }
+              ]
+            }
+          })
+        ),
+      MessageValidationError
+    );
+  });
+});
+
+describe("serializeMessage", () => {
+  it("encodes a valid message", () => {
+    const message: QueueMessage = {
+      message: "payment.processed",
+      data: { orderId: "o1", status: "success", amount: 12.5 }
+    };
+
+    assert.deepEqual(parseMessage(serializeMessage(message)), message);
+  });
+
+  it("refuses to encode a message that breaks its contract", () => {
+    assert.throws(
+      () =>
+        serializeMessage({
+          message: "payment.processed",
+          data: { orderId: "o1", status: "pending", amount: 1 }
+        } as unknown as QueueMessage),
+      MessageValidationError
+    );
+  });
+});
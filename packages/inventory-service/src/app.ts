@@ -4,213 +4,56 @@ import cors from "cors";
 import config from "./config";
 import { errorHandler } from "./middleware/errorHandler";
 import logger from "./middleware/logger";
-import amqp, { Channel, Connection } from "amqplib";
-import promClient, { Gauge } from "prom-client";
-import os from "os";
+import tracing from "./tracing";
+import {
+  createServiceMetrics,
+  checkHealth,
+  createMessagingMetrics,
+  correlationMiddleware,
+  deadlineMiddleware,
+  setLogContext,
+  startQueueMonitor,
+  shutdownGracefully
+} from "observability";
 import { PrismaClient } from "@prisma/client";
+import {
+  consumeMessages,
+  createRabbitConnection,
+  enqueueMessage,
+  startOutboxRelay,
+  topology,
+  type CheckInventoryResponse
+} from "contracts";
+import {
+  commitReservations,
+  getAvailability,
+  parseCheckInventoryRequest,
+  releaseReservations,
+  reserveStock,
+  startReservationSweeper
+} from "./reservations";
 
 // Create a singleton PrismaClient instance
 const prisma = new PrismaClient();
-export type CheckInventoryResponse = {
-  orderId: string;
-  isAvailable: boolean;
-};
-
-export type CreateTrackerResponse = {
-  trackerId: string;
-  status: OrderStatus;
-};
-
-export type PaymentProcessedResponse = {
-  orderId: string;
-  status: PaymentStatus;
-};
-
-export type MessageTypes =
-  | "order.created"
-  | "inventory.checked"
-  | "payment.processed";
-
-export type OrderCreatedMessage = {
-  orderId: string;
-  productIds: string[];
-};
-export type InventoryCheckedMessage = {
-  orderId: string;
-  isAvailable: boolean;
-};
-
-export type PaymentProcessedMessage = {
-  orderId: string;
-  status: PaymentStatus;
-};
-
-export type QueueMessage =
-  | { message: "order.created"; data: OrderCreatedMessage }
-  | { message: "inventory.checked"; data: InventoryCheckedMessage }
-  | { message: "payment.processed"; data: PaymentProcessedMessage };
-
-export type PaymentStatus = "success" | "failed";
-
-export type OrderStatus = "created" | "paid" | "canceled";
-
-// prometheus metrics
-const register = new promClient.Registry();
-
-register.setDefaultLabels({
-  app: "inventory-service"
-});
-
-// Create a histogram metric
-const httpRequestDurationMs = new promClient.Histogram({
-  name: "http_request_duration_ms",
-  help: "Duration of HTTP requests in milliseconds",
-  labelNames: ["method", "route", "status_code"],
-  buckets: [50, 100, 300, 500, 1000, 1500, 2000, 5000] // Define latency buckets in milliseconds
-});
-register.registerMetric(httpRequestDurationMs);
-
-const httpRequestsTotal = new promClient.Counter({
-  name: "http_requests_total",
-  help: "Total number of HTTP requests",
-  labelNames: ["method", "route", "status_code"]
-});
-register.registerMetric(httpRequestsTotal);
-
-const activeConnections = new promClient.Gauge({
-  name: "active_connections",
-  help: "Number of active connections to the server"
-});
-register.registerMetric(activeConnections);
-
-// Define the Prometheus gauge metric
-const cpuUsageGauge = new Gauge({
-  name: "node_cpu_usage_percentage",
-  help: "CPU usage as a percentage"
-});
-register.registerMetric(cpuUsageGauge);
-
-promClient.collectDefaultMetrics({ register });
-
-// ====================
-
-// Variables to track previous CPU times
-let previousIdle: number = 0;
-let previousTotal: number = 0;
-
-// Function to calculate CPU usage percentage over an interval
-function getCpuUsagePercentage(): string {
-  const cpus = os.cpus();
-  let totalIdle = 0;
-  let totalTick = 0;
-
-  cpus.forEach((core) => {
-    for (const type in core.times) {
-      totalTick += core.times[type as keyof typeof core.times];
-    }
-    totalIdle += core.times.idle;
-  });
-
-  // Calculate deltas
-  const idleDelta = totalIdle - previousIdle;
-  const totalDelta = totalTick - previousTotal;
-
-  // Update previous values
-  previousIdle = totalIdle;
-  previousTotal = totalTick;
-
-  // Avoid division by zero
-  if (totalDelta === 0) {
-    return "0.00";
-  }
-
-  const usagePercentage = ((totalDelta - idleDelta) / totalDelta) * 100;
-  return usagePercentage.toFixed(2);
-}
 
 const app: Express = express();
 const server = createServer(app);
 
-// Periodically update the Prometheus gauge metric
-setInterval((): void => {
-  const usage = getCpuUsagePercentage();
-  cpuUsageGauge.set(Number(usage));
-}, 5000);
-
-let channel: Channel;
-
-const connectRabbit = async () => {
-  logger.info("Trying to connect to RabbitMQ...");
-
-  let conn: Connection;
-
-  try {
-    conn = await amqp.connect(config.rabbitmq.url);
-  } catch (err) {
-    logger.error("Unable to connect to RabbitMQ: ", err);
-    setTimeout(
-      async () => await connectRabbit(),
-      config.rabbitmq.retryInterval
-    );
-    return;
-  }
-
-  logger.info("Successfully connected to RabbitMQ");
-
-  conn.on("close", async function (err: Error) {
-    console.error("Rabbit connection closed with error: ", err);
-    setTimeout(
-      async () => await connectRabbit(),
-      config.rabbitmq.retryInterval
-    );
-  });
-
-  channel = await conn.createChannel();
-
-  await channel.assertExchange(config.rabbitmq.exchanges[1], "fanout", {
-    durable: false
-  });
-
-  const queues = Object.values(config.rabbitmq.queues);
-
-  for (const queue of queues) {
-    const q = await channel.assertQueue(queue);
+// HTTP, CPU and Node.js metrics, served on /metrics
+const metrics = createServiceMetrics({
+  app: config.app.name,
+  cpuSampleInterval: config.metrics.cpuSampleInterval
+});
 
-    await channel.bindQueue(q.queue, config.rabbitmq.exchanges[1], "");
-  }
-};
+// publishes, consumes, handler latency and queue depth of the message flow
+const messagingMetrics = createMessagingMetrics(metrics.register);
 
-app.use((req, res, next) => {
-  activeConnections.inc(); // Increment on new connection
-  const start = Date.now();
-  res.on("finish", () => {
-    const duration = Date.now() - start; // Calculate duration in milliseconds
+// reconnects with backoff and re-attaches the consumers after every reconnect
+const rabbit = createRabbitConnection(config.rabbitmq, logger);
 
-    httpRequestDurationMs.observe(
-      {
-        method: req.method,
-        route: req.route?.path || req.url,
-        status_code: res.statusCode
-      },
-      duration
-    );
-
-    // Track total requests
-    httpRequestsTotal.inc({
-      method: req.method,
-      route: req.route?.path || req.url,
-      status_code: res.statusCode
-    });
-
-    activeConnections.dec(); // Decrement when response finishes
-  });
-  next();
-});
+app.use(metrics.httpMetrics);
 
-app.get("/metrics", async (_req, res) => {
-  res.setHeader("Content-Type", register.contentType);
-  res.send(await register.metrics());
-});
+app.get("/metrics", metrics.metricsHandler);
 
 // parse json request body
 app.use(express.json());
@@ -220,107 +63,44 @@ app.use(express.urlencoded({ extended: true }));
 
 app.use(cors({ origin: String(config.cors.origin).split("|") ?? "*" }));
 
-(async () => {
-  await connectRabbit();
-
-  //@ts-ignore
-  if (!channel) {
-    return;
-  }
-  await channel.consume(
-    config.rabbitmq.queues["iventory-queue"],
-    async (msg) => {
-      if (!msg) {
-        return;
-      }
-      const m = msg.content.toString();
-
-      if (!m) {
-        return;
-      }
+// request logs carry the correlation id and, once known, the orderId
+app.use(correlationMiddleware);
 
-      let parsedMessage: QueueMessage;
-      try {
-        parsedMessage = JSON.parse(msg.content.toString()) as QueueMessage;
-      } catch (error) {
-        logger.error("Failed to parse message");
-        return;
-      }
+// requests whose caller already gave up are not worked on
+app.use(deadlineMiddleware);
 
-      if (!parsedMessage) {
-        return;
-      }
+app.param("orderId", (_req, _res, next, orderId: string) => {
+  setLogContext({ orderId });
+  next();
+});
 
+void rabbit.addConsumer((channel) =>
+  consumeMessages(
+    channel,
+    {
+      queue: topology.queues.inventory.name,
+      prisma,
+      logger,
+      metrics: messagingMetrics
+    },
+    async (parsedMessage, tx) => {
       // ========================================
       // order.created
       // ========================================
       if (parsedMessage.message === "order.created") {
-        const { orderId, productIds } = parsedMessage.data;
-
-        try {
-          const products = await prisma.products.findMany({
-            where: {
-              id: {
-                in: productIds
-              }
-            }
-          });
-
-          if (products.length === 0) {
-            logger.error("Products not found");
-
-            return;
-          }
+        const { orderId, items } = parsedMessage.data;
 
-          const groupedProducts = productIds.reduce(
-            (acc, id) => {
-              acc[id] = acc[id] === undefined ? 1 : acc[id]! + 1;
-              return acc;
-            },
-            {} as Record<string, number>
-          );
-
-          const isAvailable = products.every(
-            (product) =>
-              groupedProducts[product.id] &&
-              groupedProducts[product.id]! <= product.stockAmount
-          );
-
-          // if available, update order and add products
-          if (isAvailable) {
-            await prisma.order.update({
-              where: {
-                id: orderId
-              },
-              data: {
-                products: {
-                  connect: products.map((product) => ({ id: product.id }))
-                }
-              }
-            });
-          }
+        // hold the stock until the order is paid or the hold expires
+        const isAvailable = await reserveStock(tx, orderId, items);
 
-          // send to inventory.checked
-          channel.publish(
-            config.rabbitmq.exchanges[1],
-            "",
-            Buffer.from(
-              JSON.stringify({
-                message: "inventory.checked",
-                data: {
-                  orderId,
-                  isAvailable
-                }
-              } as QueueMessage)
-            )
-          );
-        } catch (error) {
-          if (error instanceof Error) {
-            logger.error(error.message);
+        // send to inventory.checked
+        await enqueueMessage(tx, config.app.name, {
+          message: "inventory.checked",
+          data: {
+            orderId,
+            isAvailable
           }
-
-          return;
-        }
+        });
       } else if (parsedMessage.message === "payment.processed") {
         // ========================================
         // payment.processed
@@ -331,122 +111,151 @@ app.use(cors({ origin: String(config.cors.origin).split("|") ?? "*" }));
         const { orderId, status } = parsedMessage.data;
 
         if (status === "failed") {
+          // the saga releases the products with order.canceled
           return;
         }
 
-        try {
-          const order = await prisma.order.findUnique({
-            where: {
-              id: orderId
-            },
-            include: {
-              products: {
-                select: {
-                  id: true
-                }
-              }
-            }
-          });
-
-          if (!order) {
-            logger.error(`Order ${orderId} not found`);
-            return;
-          }
+        // update inventory with the held quantities
+        const committed = await commitReservations(tx, orderId);
 
-          // update inventory
-          await prisma.products.updateMany({
-            where: {
-              id: {
-                in: order.products.map((product) => product.id)
-              }
-            },
-            data: {
-              stockAmount: {
-                decrement: 1
-              }
-            }
-          });
-        } catch (error) {
-          if (error instanceof Error) {
-            logger.error(error.message);
+        if (!committed) {
+          logger.warn(`Stock for order ${orderId} could not be committed`);
+        }
+
+        await enqueueMessage(tx, config.app.name, {
+          message: "inventory.committed",
+          data: {
+            orderId,
+            success: committed
           }
+        });
+      } else if (parsedMessage.message === "order.canceled") {
+        // ========================================
+        // order.canceled
+        // ========================================
+
+        // compensate the inventory steps of the saga
+
+        const { orderId, compensate } = parsedMessage.data;
 
+        if (!compensate.releaseInventory && !compensate.restock) {
           return;
         }
-      } else {
+
+        await releaseReservations(tx, orderId, {
+          restock: compensate.restock
+        });
+      } else if (parsedMessage.message === "payment.refunded") {
         // ========================================
-        // inventory.checked
+        // payment.refunded
         // ========================================
 
-        return;
+        const { orderId, fullyRefunded } = parsedMessage.data;
+
+        // a partial refund keeps the goods with the customer
+        if (!fullyRefunded) {
+          return;
+        }
+
+        // put the committed quantities back into stock
+        await releaseReservations(tx, orderId, { restock: true });
       }
-    },
-    {
-      noAck: true
     }
-  );
-})();
+  )
+);
+
+rabbit.connect();
+
+const queueMonitor = startQueueMonitor(
+  rabbit.getChannel,
+  messagingMetrics,
+  logger,
+  {
+    queues: [
+      topology.queues.inventory.name,
+      `${topology.queues.inventory.name}.dlq`
+    ],
+    interval: config.metrics.queueInterval
+  }
+);
+
+const relay = startOutboxRelay(prisma, rabbit.getChannel, logger, {
+  source: config.app.name,
+  ...config.outbox,
+  metrics: messagingMetrics
+});
+
+const sweeper = startReservationSweeper(prisma);
 
 app.get("/", (_req, res) => {
   res.status(200).json({ msg: "Up" });
 });
 
-app.get("/api/v1/inventory", async (req, res) => {
+// the process is up and serving requests
+app.get("/health/live", (_req, res) => {
   res.set("Cache-Control", "no-cache, no-store, must-revalidate");
   res.set("Pragma", "no-cache");
   res.set("Expires", "0");
+  res.status(200).json({ status: "live" });
+});
 
-  const { orderId, productIds } = req.body as {
-    orderId: string;
-    productIds: string[];
-  };
+// the service can do its work, 503 if a critical dependency is down
+app.get("/health/ready", async (_req, res) => {
+  res.set("Cache-Control", "no-cache, no-store, must-revalidate");
+  res.set("Pragma", "no-cache");
+  res.set("Expires", "0");
 
-  if (!orderId || !productIds || productIds.length === 0) {
-    res.status(400).json({ error: "orderId and productIds are required" });
-    return;
-  }
+  const report = await checkHealth(
+    {
+      rabbitmq: {
+        critical: true,
+        check: () => {
+          if (!rabbit.getChannel()) {
+            throw new Error("No channel to RabbitMQ");
+          }
+        }
+      },
+      consumers: {
+        critical: true,
+        check: () => {
+          const { attached, registered } = rabbit.getConsumerCount();
 
-  try {
-    const products = await prisma.products.findMany({
-      where: {
-        id: {
-          in: productIds
+          if (attached < registered) {
+            throw new Error(`${attached} of ${registered} consumers attached`);
+          }
         }
+      },
+      database: {
+        critical: true,
+        check: () => prisma.$queryRaw`SELECT 1`
       }
-    });
+    },
+    config.health.timeout
+  );
 
-    if (products.length === 0) {
-      res.status(404).json({ error: `Products not found` });
-      return;
-    }
+  res.status(report.status === "not_ready" ? 503 : 200).json(report);
+});
 
-    const groupedProducts = productIds.reduce(
-      (acc, id) => {
-        acc[id] = acc[id] === undefined ? 1 : acc[id]! + 1;
-        return acc;
-      },
-      {} as Record<string, number>
-    );
+app.get("/api/v1/inventory", async (req, res) => {
+  res.set("Cache-Control", "no-cache, no-store, must-revalidate");
+  res.set("Pragma", "no-cache");
+  res.set("Expires", "0");
 
-    const isAvailable = products.every(
-      (product) =>
-        groupedProducts[product.id] &&
-        groupedProducts[product.id]! <= product.stockAmount
-    );
+  const { request, error } = parseCheckInventoryRequest(req.body);
 
-    // if available, update order and add products
-    if (isAvailable) {
-      await prisma.order.update({
-        where: {
-          id: orderId
-        },
-        data: {
-          products: {
-            connect: products.map((product) => ({ id: product.id }))
-          }
-        }
-      });
-    }
+  if (error !== undefined) {
+    res.status(400).json({ error });
+    return;
+  }
+
+  const { orderId, items } = request;
+  setLogContext({ orderId });
+
+  try {
+    // hold the stock until the order is paid or the hold expires
+    const isAvailable = await prisma.$transaction((tx) =>
+      reserveStock(tx, orderId, items)
+    );
 
     res.status(200).json({
       orderId: orderId,
@@ -479,13 +288,6 @@ app.patch("/api/v1/inventory/update/:orderId", async (req, res) => {
     const order = await prisma.order.findUnique({
       where: {
         id: orderId
-      },
-      include: {
-        products: {
-          select: {
-            id: true
-          }
-        }
       }
     });
 
@@ -494,19 +296,17 @@ app.patch("/api/v1/inventory/update/:orderId", async (req, res) => {
       return;
     }
 
-    // update inventory
-    await prisma.products.updateMany({
-      where: {
-        id: {
-          in: order.products.map((product) => product.id)
-        }
-      },
-      data: {
-        stockAmount: {
-          decrement: 1
-        }
-      }
-    });
+    // update inventory with the held quantities
+    const committed = await prisma.$transaction((tx) =>
+      commitReservations(tx, orderId)
+    );
+
+    if (!committed) {
+      res
+        .status(409)
+        .json({ error: `Stock for order ${orderId} could not be committed` });
+      return;
+    }
 
     res.status(200).json({ msg: "Inventory updated successfully" });
   } catch (error) {
@@ -520,6 +320,67 @@ app.patch("/api/v1/inventory/update/:orderId", async (req, res) => {
   }
 });
 
+app.patch("/api/v1/inventory/release/:orderId", async (req, res) => {
+  const { orderId } = req.params;
+
+  res.set("Cache-Control", "no-cache, no-store, must-revalidate");
+  res.set("Pragma", "no-cache");
+  res.set("Expires", "0");
+
+  // payment puts committed stock back when it can not capture the order
+  const restock = req.body?.restock === true;
+
+  try {
+    // gives up the holds of an order the v1 flow did not complete,
+    // committed stock is kept unless asked otherwise, releasing twice
+    // is a no-op
+    await prisma.$transaction((tx) =>
+      releaseReservations(tx, orderId, { restock })
+    );
+
+    res.status(200).json({ msg: "Reservations released" });
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(error.message);
+    }
+    res.status(500).json({
+      error: "Internal Server Error while calling release inventory Endpoint"
+    });
+    return;
+  }
+});
+
+app.get("/api/v1/inventory/products/:productId", async (req, res) => {
+  res.set("Cache-Control", "no-cache, no-store, must-revalidate");
+  res.set("Pragma", "no-cache");
+  res.set("Expires", "0");
+  const { productId } = req.params;
+
+  if (!productId) {
+    res.status(400).json({ error: "productId is required" });
+    return;
+  }
+
+  try {
+    const availability = await getAvailability(prisma, [productId]);
+    const product = availability.get(productId);
+
+    if (!product) {
+      res.status(404).json({ error: `Product ${productId} not found` });
+      return;
+    }
+
+    res.status(200).json(product);
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(error.message);
+    }
+    res.status(500).json({
+      error: "Internal Server Error while calling product availability Endpoint"
+    });
+  }
+});
+
 app.all("*", (_req, res) => {
   res.set("Cache-Control", "no-cache, no-store, must-revalidate");
   res.set("Pragma", "no-cache");
@@ -529,4 +390,41 @@ app.all("*", (_req, res) => {
 
 app.use(errorHandler);
 
+/**
+ * Stops taking new requests and messages, waits for the ones in flight
+ * up to the shutdown timeout, then closes RabbitMQ and the database.
+ * Resolves to false if anything was cut off or failed to close.
+ */
+export const shutdown = (): Promise<boolean> =>
+  shutdownGracefully(logger, config.shutdown.timeout, {
+    drain: [
+      {
+        name: "HTTP server",
+        run: () =>
+          new Promise<void>((resolve, reject) => {
+            server.close((error) => (error ? reject(error) : resolve()));
+            server.closeIdleConnections();
+          })
+      },
+      { name: "consumers", run: () => rabbit.stopConsuming() }
+    ],
+    close: [
+      // requests still running after the timeout are cut off
+      {
+        name: "HTTP connections",
+        run: async () => server.closeAllConnections()
+      },
+      {
+        name: "reservation sweeper",
+        run: async () => clearInterval(sweeper)
+      },
+      { name: "outbox relay", run: () => relay.stop() },
+      { name: "metrics", run: async () => metrics.stop() },
+      { name: "queue monitor", run: async () => queueMonitor.stop() },
+      { name: "RabbitMQ", run: () => rabbit.close() },
+      { name: "database", run: () => prisma.$disconnect() },
+      { name: "tracing", run: () => tracing.shutdown() }
+    ]
+  });
+
 export default server;
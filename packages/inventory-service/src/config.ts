@@ -11,7 +11,14 @@ const envSchema = Joi.object().keys({
   PORT: Joi.number().port().required().default(4042),
   HOST: Joi.string().required(),
   CORS_ORIGIN: Joi.string().required().default("*"),
-  RABBITMQ_URL: Joi.string().required()
+  RABBITMQ_URL: Joi.string().required(),
+  OTEL_TRACES_EXPORTER: Joi.string()
+    .valid("otlp", "file", "none")
+    .default("none"),
+  OTEL_EXPORTER_OTLP_TRACES_ENDPOINT: Joi.string()
+    .uri()
+    .default("http://localhost:4318/v1/traces"),
+  TRACES_FILE: Joi.string().default("traces.jsonl")
 });
 
 const { value: validatedEnv, error } = envSchema
@@ -29,6 +36,7 @@ if (error) {
 const config = {
   node_env: validatedEnv.NODE_ENV,
   app: {
+    name: "inventory-service",
     port: validatedEnv.PORT,
     host: validatedEnv.HOST
   },
@@ -37,15 +45,38 @@ const config = {
   },
   rabbitmq: {
     url: validatedEnv.RABBITMQ_URL,
-    queues: {
-      "iventory-queue": "inventory-queue",
-      "payment-queue": "payment-queue",
-      "track-queue": "track-queue"
-    },
-    exchanges: {
-      1: "order-exchange"
-    },
-    retryInterval: 5000
+    prefetch: 10,
+    retryInterval: 5000,
+    maxRetryInterval: 30000
+  },
+  shutdown: {
+    // how long in-flight requests and messages get to finish
+    timeout: 10000
+  },
+  health: {
+    // per dependency check
+    timeout: 2000
+  },
+  metrics: {
+    // how often the depth and consumers of the queues are sampled
+    queueInterval: 15000,
+    cpuSampleInterval: 5000
+  },
+  tracing: {
+    exporter: validatedEnv.OTEL_TRACES_EXPORTER,
+    otlpEndpoint: validatedEnv.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT,
+    file: validatedEnv.TRACES_FILE
+  },
+  outbox: {
+    pollInterval: 1000,
+    batchSize: 50,
+    maxAttempts: 10,
+    publishTimeout: 5000
+  },
+  reservations: {
+    // how long a stock check holds stock for an order
+    ttl: 15 * 60 * 1000,
+    sweepInterval: 60 * 1000
   }
 } as const;
 
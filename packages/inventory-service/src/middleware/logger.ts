@@ -1,24 +1,26 @@
+import { getLogContext } from "observability";
 import { createLogger, format, transports } from "winston";
+import config from "../config";
+
+// adds the correlation id, orderId and trackerId of the current request or message
+const logContext = format((info) => Object.assign(info, getLogContext()));
 
 const logger = createLogger({
   level: "info",
+  defaultMeta: {
+    service: config.app.name
+  },
   format: format.combine(
-    format.timestamp({
-      format: "YYYY-MM-DD HH:mm:ss",
-    }),
+    format.timestamp(),
     format.errors({ stack: true }),
     format.splat(),
-    format.json(),
-    format.printf(({ timestamp, level, message, stack }) => {
-      return `${timestamp} [${level.toUpperCase()}] ${message} ${
-        stack ? `\n${stack}` : ""
-      }`;
-    }),
+    logContext(),
+    format.json()
   ),
   transports: [
     new transports.Console({
-      stderrLevels: ["info"],
-    }),
-  ],
+      stderrLevels: ["info"]
+    })
+  ]
 });
 export default logger;
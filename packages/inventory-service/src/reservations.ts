@@ -0,0 +1,349 @@
+import { Prisma, type PrismaClient } from "@prisma/client";
+import { orderItemSchema, type OrderItem } from "contracts";
+import Joi from "joi";
+import config from "./config";
+import logger from "./middleware/logger";
+
+export type ReservationStatus = "held" | "committed" | "released" | "expired";
+
+export type CheckInventoryRequest = {
+  orderId: string;
+  items: OrderItem[];
+};
+
+const checkInventorySchema = Joi.object<CheckInventoryRequest>().keys({
+  orderId: Joi.string().required(),
+  items: Joi.array().items(orderItemSchema).min(1).required()
+});
+
+/**
+ * Validates the body of a stock check request.
+ */
+export const parseCheckInventoryRequest = (
+  body: unknown
+):
+  | { request: CheckInventoryRequest; error?: never }
+  | { request?: never; error: string } => {
+  const { value, error } = checkInventorySchema
+    .prefs({ errors: { label: "path" } })
+    .validate(body, { abortEarly: false, stripUnknown: true });
+
+  if (error) {
+    return {
+      error: error.details.map((detail) => detail.message).join(", ")
+    };
+  }
+
+  return { request: value };
+};
+
+export type ProductAvailability = {
+  productId: string;
+  stockAmount: number;
+  reserved: number;
+  availableToPromise: number;
+};
+
+/**
+ * Locks the product rows until the transaction ends,
+ * so concurrent checks for the same products run one after another.
+ */
+const lockProducts = async (
+  tx: Prisma.TransactionClient,
+  productIds: string[]
+): Promise<void> => {
+  await tx.$queryRaw`SELECT id FROM "Products" WHERE id IN (${Prisma.join(productIds)}) FOR UPDATE`;
+};
+
+/**
+ * Locks the reservation rows of an order until the transaction ends,
+ * so a commit and a release of the same order can not both act on its holds.
+ */
+const lockReservations = async (
+  tx: Prisma.TransactionClient,
+  orderId: string
+): Promise<void> => {
+  await tx.$queryRaw`SELECT id FROM "Reservation" WHERE "orderId" = ${orderId} FOR UPDATE`;
+};
+
+/**
+ * Stock minus the quantity held by reservations that did not expire yet.
+ * Products that do not exist are not part of the result.
+ */
+export const getAvailability = async (
+  tx: Prisma.TransactionClient,
+  productIds: string[]
+): Promise<Map<string, ProductAvailability>> => {
+  const products = await tx.products.findMany({
+    where: {
+      id: {
+        in: productIds
+      }
+    }
+  });
+
+  const holds = await tx.reservation.groupBy({
+    by: ["productId"],
+    where: {
+      productId: {
+        in: productIds
+      },
+      status: "held" satisfies ReservationStatus,
+      expiresAt: {
+        gt: new Date()
+      }
+    },
+    _sum: {
+      quantity: true
+    }
+  });
+
+  const reservedByProduct = new Map(
+    holds.map((hold) => [hold.productId, hold._sum.quantity ?? 0])
+  );
+
+  return new Map(
+    products.map((product) => {
+      const reserved = reservedByProduct.get(product.id) ?? 0;
+
+      return [
+        product.id,
+        {
+          productId: product.id,
+          stockAmount: product.stockAmount,
+          reserved,
+          availableToPromise: Math.max(product.stockAmount - reserved, 0)
+        }
+      ];
+    })
+  );
+};
+
+/**
+ * Holds the quantity of every item for an order if all of them are available.
+ * Returns false, and holds nothing, if any product is missing or short.
+ */
+export const reserveStock = async (
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  items: OrderItem[]
+): Promise<boolean> => {
+  await lockReservations(tx, orderId);
+
+  // a redelivered check keeps the holds it already has
+  const existing = await tx.reservation.count({
+    where: {
+      orderId,
+      status: {
+        in: ["held", "committed"] satisfies ReservationStatus[]
+      }
+    }
+  });
+
+  if (existing > 0) {
+    return true;
+  }
+
+  const quantities = items.reduce(
+    (acc, { productId, quantity }) => {
+      acc[productId] = (acc[productId] ?? 0) + quantity;
+      return acc;
+    },
+    {} as Record<string, number>
+  );
+  const uniqueProductIds = Object.keys(quantities);
+
+  await lockProducts(tx, uniqueProductIds);
+
+  const availability = await getAvailability(tx, uniqueProductIds);
+
+  const isAvailable = uniqueProductIds.every(
+    (id) => (availability.get(id)?.availableToPromise ?? 0) >= quantities[id]!
+  );
+
+  if (!isAvailable) {
+    return false;
+  }
+
+  const expiresAt = new Date(Date.now() + config.reservations.ttl);
+
+  // an expired or released hold from an earlier attempt is replaced
+  await tx.reservation.deleteMany({
+    where: {
+      orderId
+    }
+  });
+
+  await tx.reservation.createMany({
+    data: uniqueProductIds.map((productId) => ({
+      orderId,
+      productId,
+      quantity: quantities[productId]!,
+      status: "held" satisfies ReservationStatus,
+      expiresAt
+    }))
+  });
+
+  return true;
+};
+
+/**
+ * Turns the holds of an order into a stock decrement.
+ * An expired hold is still committed if the stock is there
+ * without the quantity other orders hold.
+ * Returns false, without touching the stock, if the order has no holds
+ * or a product ran short.
+ */
+export const commitReservations = async (
+  tx: Prisma.TransactionClient,
+  orderId: string
+): Promise<boolean> => {
+  await lockReservations(tx, orderId);
+
+  const reservations = await tx.reservation.findMany({
+    where: {
+      orderId,
+      status: {
+        in: ["held", "expired"] satisfies ReservationStatus[]
+      }
+    }
+  });
+
+  if (reservations.length === 0) {
+    return false;
+  }
+
+  const productIds = reservations.map((reservation) => reservation.productId);
+
+  await lockProducts(tx, productIds);
+
+  const availability = await getAvailability(tx, productIds);
+  const now = new Date();
+
+  const isCommittable = reservations.every((reservation) => {
+    const product = availability.get(reservation.productId);
+
+    if (product === undefined) {
+      return false;
+    }
+
+    // the order's own hold is part of `reserved` while it is active
+    const isActive =
+      reservation.status === "held" && reservation.expiresAt > now;
+    const heldByOthers =
+      product.reserved - (isActive ? reservation.quantity : 0);
+
+    return product.stockAmount - heldByOthers >= reservation.quantity;
+  });
+
+  if (!isCommittable) {
+    return false;
+  }
+
+  for (const reservation of reservations) {
+    await tx.products.update({
+      where: {
+        id: reservation.productId
+      },
+      data: {
+        stockAmount: {
+          decrement: reservation.quantity
+        }
+      }
+    });
+  }
+
+  await tx.reservation.updateMany({
+    where: {
+      id: {
+        in: reservations.map((reservation) => reservation.id)
+      }
+    },
+    data: {
+      status: "committed" satisfies ReservationStatus
+    }
+  });
+
+  return true;
+};
+
+/**
+ * Releases the holds of an order. With `restock` committed reservations
+ * are released as well and their quantity is put back into stock.
+ */
+export const releaseReservations = async (
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  { restock }: { restock: boolean }
+): Promise<void> => {
+  await lockReservations(tx, orderId);
+
+  if (restock) {
+    const committed = await tx.reservation.findMany({
+      where: {
+        orderId,
+        status: "committed" satisfies ReservationStatus
+      }
+    });
+
+    for (const reservation of committed) {
+      await tx.products.update({
+        where: {
+          id: reservation.productId
+        },
+        data: {
+          stockAmount: {
+            increment: reservation.quantity
+          }
+        }
+      });
+    }
+  }
+
+  await tx.reservation.updateMany({
+    where: {
+      orderId,
+      status: {
+        in: (restock
+          ? ["held", "expired", "committed"]
+          : ["held", "expired"]) satisfies ReservationStatus[]
+      }
+    },
+    data: {
+      status: "released" satisfies ReservationStatus
+    }
+  });
+};
+
+/**
+ * Periodically marks holds past their expiry as expired.
+ * Expired holds already do not count against available stock,
+ * this only keeps the table honest.
+ */
+export const startReservationSweeper = (
+  prisma: PrismaClient
+): NodeJS.Timeout => {
+  return setInterval(async () => {
+    try {
+      const { count } = await prisma.reservation.updateMany({
+        where: {
+          status: "held" satisfies ReservationStatus,
+          expiresAt: {
+            lte: new Date()
+          }
+        },
+        data: {
+          status: "expired" satisfies ReservationStatus
+        }
+      });
+
+      if (count > 0) {
+        logger.info(`Expired ${count} stock reservations`);
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        logger.error(error.message);
+      }
+    }
+  }, config.reservations.sweepInterval);
+};
@@ -0,0 +1,123 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { PrismaClient } from "@prisma/client";
+import {
+  commitReservations,
+  releaseReservations,
+  reserveStock
+} from "../src/reservations";
+
+const skip =
+  !process.env.TEST_DATABASE_URL &&
+  "set TEST_DATABASE_URL to run the database tests";
+
+describe("stock reservations", { skip }, () => {
+  let prisma: PrismaClient;
+
+  before(() => {
+    prisma = new PrismaClient();
+  });
+
+  after(async () => {
+    await prisma.$disconnect();
+  });
+
+  const createOrder = async (): Promise<string> => {
+    const user = await prisma.user.create({ data: {} });
+    const order = await prisma.order.create({ data: { userId: user.id } });
+
+    return order.id;
+  };
+
+  const createProduct = async (stockAmount: number): Promise<string> => {
+    const product = await prisma.products.create({ data: { stockAmount } });
+
+    return product.id;
+  };
+
+  const getStock = async (productId: string): Promise<number> => {
+    const product = await prisma.products.findUniqueOrThrow({
+      where: { id: productId }
+    });
+
+    return product.stockAmount;
+  };
+
+  const reserve = (orderId: string, productId: string, quantity: number) =>
+    prisma.$transaction((tx) =>
+      reserveStock(tx, orderId, [{ productId, quantity }])
+    );
+
+  const expire = (orderId: string) =>
+    prisma.reservation.updateMany({
+      where: { orderId },
+      data: { status: "expired", expiresAt: new Date(Date.now() - 1000) }
+    });
+
+  it("commits a hold into a stock decrement once", async () => {
+    const productId = await createProduct(10);
+    const orderId = await createOrder();
+
+    assert.equal(await reserve(orderId, productId, 3), true);
+    assert.equal(
+      await prisma.$transaction((tx) => commitReservations(tx, orderId)),
+      true
+    );
+    assert.equal(
+      await prisma.$transaction((tx) => commitReservations(tx, orderId)),
+      false
+    );
+    assert.equal(await getStock(productId), 7);
+  });
+
+  it("does not lose stock when a release races a commit", async () => {
+    for (let round = 0; round < 10; round++) {
+      const productId = await createProduct(10);
+      const orderId = await createOrder();
+
+      await reserve(orderId, productId, 4);
+
+      const [committed] = await Promise.all([
+        prisma.$transaction((tx) => commitReservations(tx, orderId)),
+        prisma.$transaction((tx) =>
+          releaseReservations(tx, orderId, { restock: true })
+        )
+      ]);
+
+      const reservation = await prisma.reservation.findFirstOrThrow({
+        where: { orderId }
+      });
+
+      // either the release ran first and nothing was committed, or it
+      // restocked what the commit took
+      assert.equal(reservation.status, "released");
+      assert.equal(await getStock(productId), 10, `committed: ${committed}`);
+    }
+  });
+
+  it("commits an expired hold from the stock other orders do not hold", async () => {
+    const productId = await createProduct(5);
+    const late = await createOrder();
+    const other = await createOrder();
+
+    await reserve(late, productId, 3);
+    await expire(late);
+    await reserve(other, productId, 4);
+
+    assert.equal(
+      await prisma.$transaction((tx) => commitReservations(tx, late)),
+      false
+    );
+    assert.equal(await getStock(productId), 5);
+
+    await prisma.$transaction((tx) =>
+      releaseReservations(tx, other, { restock: false })
+    );
+
+    assert.equal(
+      await prisma.$transaction((tx) => commitReservations(tx, late)),
+      true
+    );
+    assert.equal(await getStock(productId), 2);
+  });
+});
@@ -0,0 +1,11 @@
+// the tests run against TEST_DATABASE_URL only, never the database of the
+// .env, and get the settings the service would read from its environment
+if (process.env.TEST_DATABASE_URL) {
+  process.env.DATABASE_URL = process.env.TEST_DATABASE_URL;
+}
+
+process.env.NODE_ENV ??= "test";
+process.env.PORT ??= "4042";
+process.env.HOST ??= "localhost";
+process.env.CORS_ORIGIN ??= "*";
+process.env.RABBITMQ_URL ??= "amqp://localhost";
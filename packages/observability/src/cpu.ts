@@ -0,0 +1,59 @@
+import os from "os";
+import { Gauge, type Registry } from "prom-client";
+
+export type CpuSampler = {
+  stop: () => void;
+};
+
+type CpuTimes = {
+  idle: number;
+  total: number;
+};
+
+const readCpuTimes = (): CpuTimes =>
+  os.cpus().reduce(
+    (times, core) => ({
+      idle: times.idle + core.times.idle,
+      total:
+        times.total +
+        Object.values(core.times).reduce((sum, time) => sum + time, 0)
+    }),
+    { idle: 0, total: 0 }
+  );
+
+/**
+ * Samples the CPU usage of the host every `interval` ms into
+ * `node_cpu_usage_percentage`, as the busy share of the time since the
+ * previous sample.
+ */
+export const startCpuSampler = (
+  register: Registry,
+  interval: number
+): CpuSampler => {
+  const cpuUsageGauge = new Gauge({
+    name: "node_cpu_usage_percentage",
+    help: "CPU usage as a percentage",
+    registers: [register]
+  });
+
+  let previous = readCpuTimes();
+
+  const timer = setInterval(() => {
+    const current = readCpuTimes();
+    const idleDelta = current.idle - previous.idle;
+    const totalDelta = current.total - previous.total;
+
+    previous = current;
+
+    cpuUsageGauge.set(
+      totalDelta === 0 ? 0 : ((totalDelta - idleDelta) / totalDelta) * 100
+    );
+  }, interval);
+
+  // does not keep the process alive on its own
+  timer.unref();
+
+  return {
+    stop: () => clearInterval(timer)
+  };
+};
@@ -0,0 +1,40 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { IncomingMessage, ServerResponse } from "http";
+
+// epoch milliseconds after which the caller gives up on the request
+export const DEADLINE_HEADER = "x-request-deadline";
+
+const storage = new AsyncLocalStorage<number>();
+
+/**
+ * The deadline of the request being handled, if its caller sent one.
+ */
+export const getDeadline = (): number | undefined => storage.getStore();
+
+/**
+ * Express middleware that makes the caller's deadline available to
+ * `getDeadline`, so calls to further services can not outlive it.
+ * A request whose deadline already passed is answered with 504 right away.
+ */
+export const deadlineMiddleware = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  next: () => void
+): void => {
+  const header = req.headers[DEADLINE_HEADER];
+  const deadline = typeof header === "string" ? Number(header) : NaN;
+
+  if (!Number.isFinite(deadline)) {
+    next();
+    return;
+  }
+
+  if (deadline <= Date.now()) {
+    res.statusCode = 504;
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify({ error: "Request deadline exceeded" }));
+    return;
+  }
+
+  storage.run(deadline, next);
+};
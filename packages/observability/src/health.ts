@@ -0,0 +1,73 @@
+export type HealthCheck = {
+  // a failing critical check makes the service not ready,
+  // any other failing check only degrades it
+  critical: boolean;
+  // throws or rejects when the dependency is unhealthy
+  check: () => unknown;
+};
+
+export type DependencyHealth = {
+  status: "up" | "down";
+  critical: boolean;
+  error?: string;
+};
+
+export type HealthReport = {
+  status: "ready" | "degraded" | "not_ready";
+  checks: Record<string, DependencyHealth>;
+};
+
+/**
+ * Runs all checks in parallel, a check that takes longer than `timeout`
+ * counts as down.
+ */
+export const checkHealth = async (
+  checks: Record<string, HealthCheck>,
+  timeout: number
+): Promise<HealthReport> => {
+  const results = await Promise.all(
+    Object.entries(checks).map(
+      async ([name, { critical, check }]): Promise<
+        [string, DependencyHealth]
+      > => {
+        let timer: NodeJS.Timeout | undefined;
+
+        try {
+          await Promise.race([
+            Promise.resolve().then(check),
+            new Promise<never>((_resolve, reject) => {
+              timer = setTimeout(
+                () => reject(new Error(`No answer within ${timeout}ms`)),
+                timeout
+              );
+            })
+          ]);
+
+          return [name, { status: "up", critical }];
+        } catch (error) {
+          return [
+            name,
+            {
+              status: "down",
+              critical,
+              error: error instanceof Error ? error.message : String(error)
+            }
+          ];
+        } finally {
+          clearTimeout(timer);
+        }
+      }
+    )
+  );
+
+  const down = results.filter(([, health]) => health.status === "down");
+
+  return {
+    status: down.some(([, health]) => health.critical)
+      ? "not_ready"
+      : down.length > 0
+        ? "degraded"
+        : "ready",
+    checks: Object.fromEntries(results)
+  };
+};
@@ -0,0 +1,75 @@
+import type { Request, RequestHandler } from "express";
+import { Counter, Gauge, Histogram, type Registry } from "prom-client";
+
+// label of requests no route matched, e.g. scanners probing random paths
+export const UNMATCHED_ROUTE = "unmatched";
+
+/**
+ * The route template that handled the request, e.g. `/api/v1/order/:id`,
+ * so every order id shares one time series. Requests answered by a
+ * catch-all route count as unmatched.
+ */
+export const routeLabel = (req: Request): string => {
+  const path: unknown = req.route?.path;
+
+  return typeof path === "string" && path !== "*"
+    ? `${req.baseUrl}${path}`
+    : UNMATCHED_ROUTE;
+};
+
+/**
+ * Middleware that records the duration and count of every request and the
+ * connections in flight. Mount it before the routes, the route is read
+ * once the response is finished.
+ */
+export const httpMetricsMiddleware = (register: Registry): RequestHandler => {
+  const httpRequestDurationMs = new Histogram({
+    name: "http_request_duration_ms",
+    help: "Duration of HTTP requests in milliseconds",
+    labelNames: ["method", "route", "status_code"],
+    buckets: [50, 100, 300, 500, 1000, 1500, 2000, 5000],
+    registers: [register]
+  });
+
+  const httpRequestsTotal = new Counter({
+    name: "http_requests_total",
+    help: "Total number of HTTP requests",
+    labelNames: ["method", "route", "status_code"],
+    registers: [register]
+  });
+
+  const activeConnections = new Gauge({
+    name: "active_connections",
+    help: "Number of active connections to the server",
+    registers: [register]
+  });
+
+  return (req, res, next) => {
+    activeConnections.inc();
+    const start = Date.now();
+
+    res.on("finish", () => {
+      const labels = {
+        method: req.method,
+        route: routeLabel(req),
+        status_code: res.statusCode
+      };
+
+      httpRequestDurationMs.observe(labels, Date.now() - start);
+      httpRequestsTotal.inc(labels);
+      activeConnections.dec();
+    });
+
+    next();
+  };
+};
+
+/**
+ * Serves the metrics of `register` in the Prometheus text format.
+ */
+export const metricsHandler =
+  (register: Registry): RequestHandler =>
+  async (_req, res) => {
+    res.setHeader("Content-Type", register.contentType);
+    res.send(await register.metrics());
+  };
@@ -0,0 +1,312 @@
+import { setTimeout as sleep } from "timers/promises";
+import axios, {
+  isAxiosError,
+  type AxiosError,
+  type AxiosRequestConfig,
+  type AxiosResponse
+} from "axios";
+import { Counter, Gauge, type Registry } from "prom-client";
+import { DEADLINE_HEADER, getDeadline } from "./deadline";
+import { CORRELATION_ID_HEADER, getLogContext } from "./logContext";
+
+// thrown without calling the dependency while its circuit breaker is open
+export class CircuitOpenError extends Error {
+  constructor(
+    public readonly dependency: string,
+    // ms until the breaker lets a trial call through
+    public readonly retryAfter: number
+  ) {
+    super(`${dependency} is unavailable`);
+    this.name = "CircuitOpenError";
+  }
+}
+
+// thrown when the deadline passed before a call could be made
+export class DeadlineExceededError extends Error {
+  constructor(public readonly dependency: string) {
+    super(`Deadline exceeded before calling ${dependency}`);
+    this.name = "DeadlineExceededError";
+  }
+}
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export type HttpClientMetrics = {
+  requests: Counter<"dependency" | "method" | "outcome">;
+  retries: Counter<"dependency" | "method">;
+  // 0 closed, 1 half open, 2 open
+  circuitState: Gauge<"dependency">;
+};
+
+export type HttpClientOptions = {
+  // names the called service in errors and metrics
+  dependency: string;
+  baseURL: string;
+  // deadline of a call including its retries, shortened to the deadline
+  // of the request being handled
+  timeout: number;
+  // retries of idempotent calls after network errors, timeouts and 502-504
+  retries: number;
+  // delay before the first retry, doubled on every further one
+  retryInterval: number;
+  // consecutive failures that open the circuit breaker
+  failureThreshold: number;
+  // how long an open breaker rejects calls before it lets a trial call through
+  resetTimeout: number;
+  metrics?: HttpClientMetrics;
+};
+
+export type HttpRequestConfig = AxiosRequestConfig & {
+  // retry a call whose method is not idempotent, e.g. a PATCH to a status
+  idempotent?: boolean;
+};
+
+export type HttpClient = {
+  request: <T>(config: HttpRequestConfig) => Promise<AxiosResponse<T>>;
+  get: <T>(
+    url: string,
+    config?: HttpRequestConfig
+  ) => Promise<AxiosResponse<T>>;
+  post: <T>(
+    url: string,
+    data?: unknown,
+    config?: HttpRequestConfig
+  ) => Promise<AxiosResponse<T>>;
+  patch: <T>(
+    url: string,
+    data?: unknown,
+    config?: HttpRequestConfig
+  ) => Promise<AxiosResponse<T>>;
+  getCircuitState: () => CircuitState;
+};
+
+const IDEMPOTENT_METHODS = new Set(["get", "head", "options", "put", "delete"]);
+
+const CIRCUIT_STATE_VALUES: Record<CircuitState, number> = {
+  closed: 0,
+  half_open: 1,
+  open: 2
+};
+
+/**
+ * The dependency answered with a 4xx, e.g. a payment that was declined.
+ */
+export const isClientErrorResponse = (error: unknown): boolean =>
+  isAxiosError(error) &&
+  error.response !== undefined &&
+  error.response.status < 500;
+
+/**
+ * The dependency answered 503, e.g. because its own dependency is unavailable.
+ */
+export const isUnavailableResponse = (
+  error: unknown
+): error is AxiosError & { response: AxiosResponse } =>
+  isAxiosError(error) && error.response?.status === 503;
+
+/**
+ * The call ran out of time, before or while calling the dependency.
+ */
+export const isTimeoutError = (error: unknown): boolean =>
+  error instanceof DeadlineExceededError ||
+  (isAxiosError(error) &&
+    (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT"));
+
+// network errors, timeouts and gateways that may recover on their own
+const isTransient = (error: unknown): boolean =>
+  isAxiosError(error) &&
+  (error.response === undefined ||
+    [502, 503, 504].includes(error.response.status));
+
+/**
+ * Creates the HTTP client metrics and registers them in `register`,
+ * share them between the clients of a service.
+ */
+export const createHttpClientMetrics = (
+  register: Registry
+): HttpClientMetrics => ({
+  requests: new Counter({
+    name: "http_client_requests_total",
+    help: "Calls to other services, by outcome",
+    labelNames: ["dependency", "method", "outcome"],
+    registers: [register]
+  }),
+  retries: new Counter({
+    name: "http_client_retries_total",
+    help: "Retried calls to other services",
+    labelNames: ["dependency", "method"],
+    registers: [register]
+  }),
+  circuitState: new Gauge({
+    name: "http_client_circuit_state",
+    help: "Circuit breaker state per dependency, 0 closed, 1 half open, 2 open",
+    labelNames: ["dependency"],
+    registers: [register]
+  })
+});
+
+/**
+ * An HTTP client for one dependency.
+ *
+ * - only 2xx responses resolve, every other status rejects with the axios error
+ * - a call gets `timeout` ms including retries, or less if the request being
+ *   handled has an earlier deadline; the deadline is sent along in
+ *   `x-request-deadline` so the dependency stops in time too
+ * - idempotent calls are retried with exponential backoff and jitter
+ * - after `failureThreshold` consecutive failed calls (5xx, timeouts, network
+ *   errors, each counted once its retries are used up) the breaker opens and calls reject with a `CircuitOpenError`
+ *   until `resetTimeout` passed, then one trial call decides whether it closes
+ */
+export const createHttpClient = ({
+  dependency,
+  baseURL,
+  timeout,
+  retries,
+  retryInterval,
+  failureThreshold,
+  resetTimeout,
+  metrics
+}: HttpClientOptions): HttpClient => {
+  const instance = axios.create({ baseURL });
+
+  let state: CircuitState = "closed";
+  let failures = 0;
+  let openedAt = 0;
+  let trialInFlight = false;
+
+  const setState = (next: CircuitState) => {
+    state = next;
+    metrics?.circuitState.set({ dependency }, CIRCUIT_STATE_VALUES[next]);
+  };
+
+  setState("closed");
+
+  // throws while the breaker is open, lets one trial call through when half open
+  const acquire = () => {
+    if (state === "open") {
+      const retryAfter = openedAt + resetTimeout - Date.now();
+
+      if (retryAfter > 0) {
+        throw new CircuitOpenError(dependency, retryAfter);
+      }
+      setState("half_open");
+    }
+
+    if (state === "half_open") {
+      if (trialInFlight) {
+        throw new CircuitOpenError(dependency, resetTimeout);
+      }
+      trialInFlight = true;
+    }
+  };
+
+  const onSuccess = () => {
+    trialInFlight = false;
+    failures = 0;
+
+    if (state !== "closed") {
+      setState("closed");
+    }
+  };
+
+  const onFailure = () => {
+    trialInFlight = false;
+    failures++;
+
+    if (state === "half_open" || failures >= failureThreshold) {
+      openedAt = Date.now();
+      setState("open");
+    }
+  };
+
+  const request = async <T>({
+    idempotent,
+    ...config
+  }: HttpRequestConfig): Promise<AxiosResponse<T>> => {
+    const method = (config.method ?? "get").toLowerCase();
+    const retryable = idempotent ?? IDEMPOTENT_METHODS.has(method);
+    const deadline = Math.min(Date.now() + timeout, getDeadline() ?? Infinity);
+    const { correlationId } = getLogContext();
+
+    const record = (outcome: string) =>
+      metrics?.requests.inc({ dependency, method, outcome });
+
+    if (deadline <= Date.now()) {
+      record("deadline_exceeded");
+      throw new DeadlineExceededError(dependency);
+    }
+
+    // the breaker is asked once per call, its retries count as the same call
+    try {
+      acquire();
+    } catch (error) {
+      record("circuit_open");
+      throw error;
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      const remaining = deadline - Date.now();
+
+      if (remaining <= 0) {
+        onFailure();
+        record("deadline_exceeded");
+        throw new DeadlineExceededError(dependency);
+      }
+
+      try {
+        const response = await instance.request<T>({
+          ...config,
+          method,
+          timeout: remaining,
+          headers: {
+            ...config.headers,
+            [DEADLINE_HEADER]: String(deadline),
+            ...(correlationId && { [CORRELATION_ID_HEADER]: correlationId })
+          }
+        });
+
+        onSuccess();
+        record("success");
+        return response;
+      } catch (error) {
+        if (isClientErrorResponse(error)) {
+          // the dependency is up, the breaker only counts failures
+          onSuccess();
+          record("client_error");
+          throw error;
+        }
+
+        // exponential backoff with 50-100% jitter
+        const delay = Math.round(
+          retryInterval * 2 ** attempt * (0.5 + Math.random() / 2)
+        );
+
+        if (
+          !retryable ||
+          attempt >= retries ||
+          !isTransient(error) ||
+          Date.now() + delay >= deadline
+        ) {
+          // one failure per call, once its retries are used up
+          onFailure();
+          record("failure");
+          throw error;
+        }
+
+        metrics?.retries.inc({ dependency, method });
+        await sleep(delay);
+      }
+    }
+  };
+
+  return {
+    request,
+    get: <T>(url: string, config?: HttpRequestConfig) =>
+      request<T>({ ...config, method: "get", url }),
+    post: <T>(url: string, data?: unknown, config?: HttpRequestConfig) =>
+      request<T>({ ...config, method: "post", url, data }),
+    patch: <T>(url: string, data?: unknown, config?: HttpRequestConfig) =>
+      request<T>({ ...config, method: "patch", url, data }),
+    getCircuitState: () => state
+  };
+};
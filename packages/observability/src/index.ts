@@ -0,0 +1,11 @@
+export * from "./http";
+export * from "./cpu";
+export * from "./metrics";
+export * from "./messaging";
+export * from "./tracing";
+export * from "./logContext";
+export * from "./deadline";
+export * from "./httpClient";
+export * from "./health";
+export * from "./shutdown";
+export * from "./logger";
@@ -0,0 +1,64 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+import type { IncomingMessage, ServerResponse } from "http";
+import { trace } from "@opentelemetry/api";
+
+export type LogContext = {
+  // follows one request through every service and message it causes
+  correlationId?: string;
+  orderId?: string;
+  trackerId?: string;
+};
+
+export const CORRELATION_ID_HEADER = "x-correlation-id";
+
+const storage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Runs `fn` with `logContext` added to the current context,
+ * everything `fn` starts, including async work, sees it.
+ */
+export const runWithLogContext = <T>(logContext: LogContext, fn: () => T): T =>
+  storage.run({ ...storage.getStore(), ...logContext }, fn);
+
+/**
+ * Adds fields to the context of the current request or message,
+ * e.g. the orderId once it is known.
+ */
+export const setLogContext = (fields: LogContext): void => {
+  const store = storage.getStore();
+
+  if (store) {
+    Object.assign(store, fields);
+  }
+};
+
+/**
+ * The fields every log line carries: the current context plus the trace id.
+ */
+export const getLogContext = (): LogContext & { traceId?: string } => {
+  const spanContext = trace.getActiveSpan()?.spanContext();
+
+  return {
+    ...storage.getStore(),
+    ...(spanContext && { traceId: spanContext.traceId })
+  };
+};
+
+/**
+ * Express middleware that runs the request in a log context. It reuses the
+ * caller's correlation id or starts a new one and echoes it in the response.
+ */
+export const correlationMiddleware = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  next: () => void
+): void => {
+  const header = req.headers[CORRELATION_ID_HEADER];
+  const correlationId =
+    typeof header === "string" && header !== "" ? header : randomUUID();
+
+  res.setHeader(CORRELATION_ID_HEADER, correlationId);
+
+  runWithLogContext({ correlationId }, next);
+};
@@ -0,0 +1,8 @@
+/**
+ * The subset of the service logger (winston) the shared helpers use.
+ */
+export type ServiceLogger = {
+  info: (message: string) => unknown;
+  warn: (message: string) => unknown;
+  error: (message: string) => unknown;
+};
@@ -0,0 +1,124 @@
+import { Counter, Gauge, Histogram, type Registry } from "prom-client";
+import type { ServiceLogger } from "./logger";
+
+export type PublishOutcome = "confirmed" | "failed";
+
+export type ConsumeOutcome =
+  | "handled"
+  | "duplicate"
+  | "rejected"
+  | "requeued"
+  | "dead_lettered";
+
+export type MessagingMetrics = {
+  published: Counter<"type" | "outcome">;
+  consumed: Counter<"queue" | "type" | "outcome">;
+  // time from delivery until the message is settled
+  handlerDuration: Histogram<"queue" | "type">;
+  redelivered: Counter<"queue" | "type">;
+  deadLettered: Counter<"queue" | "type" | "reason">;
+  queueMessages: Gauge<"queue">;
+  queueConsumers: Gauge<"queue">;
+};
+
+// the part of an amqplib channel the queue monitor uses
+export type QueueChecker = {
+  checkQueue: (
+    queue: string
+  ) => Promise<{ messageCount: number; consumerCount: number }>;
+};
+
+export type QueueMonitor = {
+  stop: () => void;
+};
+
+/**
+ * Creates the messaging metrics and registers them in `register`.
+ * The message type label is the routing key, which is the message type.
+ */
+export const createMessagingMetrics = (
+  register: Registry
+): MessagingMetrics => ({
+  published: new Counter({
+    name: "messages_published_total",
+    help: "Messages published to RabbitMQ, by whether the broker confirmed them",
+    labelNames: ["type", "outcome"],
+    registers: [register]
+  }),
+  consumed: new Counter({
+    name: "messages_consumed_total",
+    help: "Messages consumed from RabbitMQ, by how they were settled",
+    labelNames: ["queue", "type", "outcome"],
+    registers: [register]
+  }),
+  handlerDuration: new Histogram({
+    name: "message_handler_duration_ms",
+    help: "Duration of message handlers in milliseconds",
+    labelNames: ["queue", "type"],
+    buckets: [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000],
+    registers: [register]
+  }),
+  redelivered: new Counter({
+    name: "messages_redelivered_total",
+    help: "Messages the broker delivered again after a failed attempt",
+    labelNames: ["queue", "type"],
+    registers: [register]
+  }),
+  deadLettered: new Counter({
+    name: "messages_dead_lettered_total",
+    help: "Messages sent to the dead-letter queue, rejected or failed twice",
+    labelNames: ["queue", "type", "reason"],
+    registers: [register]
+  }),
+  queueMessages: new Gauge({
+    name: "rabbitmq_queue_messages",
+    help: "Messages ready for delivery in the queue",
+    labelNames: ["queue"],
+    registers: [register]
+  }),
+  queueConsumers: new Gauge({
+    name: "rabbitmq_queue_consumers",
+    help: "Consumers attached to the queue",
+    labelNames: ["queue"],
+    registers: [register]
+  })
+});
+
+/**
+ * Samples the depth and consumer count of `queues` every `interval` ms.
+ * The queues have to exist, checking a missing queue closes the channel.
+ * Samples are skipped while there is no channel.
+ */
+export const startQueueMonitor = (
+  getChannel: () => QueueChecker | undefined,
+  metrics: MessagingMetrics,
+  logger: ServiceLogger,
+  { queues, interval }: { queues: string[]; interval: number }
+): QueueMonitor => {
+  const sample = async () => {
+    const channel = getChannel();
+
+    if (!channel) {
+      return;
+    }
+
+    for (const queue of queues) {
+      const { messageCount, consumerCount } = await channel.checkQueue(queue);
+
+      metrics.queueMessages.set({ queue }, messageCount);
+      metrics.queueConsumers.set({ queue }, consumerCount);
+    }
+  };
+
+  const timer = setInterval(() => {
+    sample().catch((error) => {
+      logger.warn(
+        `Could not sample queues: ${error instanceof Error ? error.message : error}`
+      );
+    });
+  }, interval);
+
+  return {
+    stop: () => clearInterval(timer)
+  };
+};
@@ -0,0 +1,45 @@
+import type { RequestHandler } from "express";
+import { collectDefaultMetrics, Registry } from "prom-client";
+import { startCpuSampler } from "./cpu";
+import { httpMetricsMiddleware, metricsHandler } from "./http";
+
+export type ServiceMetricsOptions = {
+  // set as the `app` label of every metric
+  app: string;
+  // how often the CPU usage is sampled
+  cpuSampleInterval: number;
+};
+
+export type ServiceMetrics = {
+  // register service specific metrics here
+  register: Registry;
+  // records every request, mount it before the routes
+  httpMetrics: RequestHandler;
+  // serves `/metrics`
+  metricsHandler: RequestHandler;
+  // stops the CPU sampler
+  stop: () => void;
+};
+
+/**
+ * Creates the registry of a service with the Node.js default metrics,
+ * the HTTP metrics and the CPU usage sampler.
+ */
+export const createServiceMetrics = ({
+  app,
+  cpuSampleInterval
+}: ServiceMetricsOptions): ServiceMetrics => {
+  const register = new Registry();
+
+  register.setDefaultLabels({ app });
+  collectDefaultMetrics({ register });
+
+  const cpuSampler = startCpuSampler(register, cpuSampleInterval);
+
+  return {
+    register,
+    httpMetrics: httpMetricsMiddleware(register),
+    metricsHandler: metricsHandler(register),
+    stop: cpuSampler.stop
+  };
+};
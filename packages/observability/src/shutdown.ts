@@ -0,0 +1,61 @@
+import type { ServiceLogger } from "./logger";
+
+export type ShutdownStep = {
+  name: string;
+  run: () => Promise<unknown>;
+};
+
+export type ShutdownPlan = {
+  // stop taking new work and wait for the work in flight, run in parallel
+  drain: ShutdownStep[];
+  // release resources, run one after another once draining is over
+  close: ShutdownStep[];
+};
+
+/**
+ * Runs the drain steps until they are done or `timeout` passes,
+ * then runs the close steps in order. A failing step is logged and
+ * does not keep the others from running.
+ * Resolves to false if draining timed out or any step failed.
+ */
+export const shutdownGracefully = async (
+  logger: ServiceLogger,
+  timeout: number,
+  { drain, close }: ShutdownPlan
+): Promise<boolean> => {
+  let clean = true;
+
+  const run = async ({ name, run }: ShutdownStep) => {
+    try {
+      await run();
+      logger.info(`Shutdown: ${name} done`);
+    } catch (error) {
+      clean = false;
+      logger.error(
+        `Shutdown: ${name} failed: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  };
+
+  let timer: NodeJS.Timeout | undefined;
+
+  const drained = await Promise.race([
+    Promise.all(drain.map(run)).then(() => true),
+    new Promise<false>((resolve) => {
+      timer = setTimeout(() => resolve(false), timeout);
+    })
+  ]);
+
+  clearTimeout(timer);
+
+  if (!drained) {
+    clean = false;
+    logger.warn(`Shutdown: draining did not finish within ${timeout}ms`);
+  }
+
+  for (const step of close) {
+    await run(step);
+  }
+
+  return clean;
+};
@@ -0,0 +1,203 @@
+import { appendFile } from "fs/promises";
+import {
+  context,
+  propagation,
+  ROOT_CONTEXT,
+  SpanStatusCode,
+  trace,
+  type Context,
+  type Span,
+  type SpanOptions
+} from "@opentelemetry/api";
+import {
+  ExportResultCode,
+  hrTimeToMilliseconds,
+  suppressTracing,
+  type ExportResult
+} from "@opentelemetry/core";
+import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
+import { registerInstrumentations } from "@opentelemetry/instrumentation";
+import { ExpressInstrumentation } from "@opentelemetry/instrumentation-express";
+import { HttpInstrumentation } from "@opentelemetry/instrumentation-http";
+import { resourceFromAttributes } from "@opentelemetry/resources";
+import {
+  BatchSpanProcessor,
+  NodeTracerProvider,
+  type ReadableSpan,
+  type SpanExporter
+} from "@opentelemetry/sdk-trace-node";
+import { ATTR_SERVICE_NAME } from "@opentelemetry/semantic-conventions";
+import { PrismaInstrumentation } from "@prisma/instrumentation";
+
+export type TracingOptions = {
+  serviceName: string;
+  // `none` keeps the instrumentation but drops every span
+  exporter: "otlp" | "file" | "none";
+  // OTLP/HTTP traces endpoint, e.g. http://localhost:4318/v1/traces
+  otlpEndpoint: string;
+  // spans are appended as one JSON object per line
+  file: string;
+};
+
+export type Tracing = {
+  // exports the spans that are still buffered
+  shutdown: () => Promise<void>;
+};
+
+export const tracer = trace.getTracer("observability");
+
+/**
+ * Writes finished spans to a JSON lines file, for local runs without a collector.
+ */
+class FileSpanExporter implements SpanExporter {
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly file: string) {}
+
+  export(
+    spans: ReadableSpan[],
+    resultCallback: (result: ExportResult) => void
+  ): void {
+    const lines = spans
+      .map((span) =>
+        JSON.stringify({
+          service: span.resource.attributes[ATTR_SERVICE_NAME],
+          traceId: span.spanContext().traceId,
+          spanId: span.spanContext().spanId,
+          parentSpanId: span.parentSpanContext?.spanId,
+          name: span.name,
+          kind: span.kind,
+          startTime: new Date(hrTimeToMilliseconds(span.startTime)),
+          durationMs: hrTimeToMilliseconds(span.duration),
+          status: span.status,
+          attributes: span.attributes
+        })
+      )
+      .join("\n");
+
+    this.writing = this.writing
+      .then(() => appendFile(this.file, `${lines}\n`))
+      .then(
+        () => resultCallback({ code: ExportResultCode.SUCCESS }),
+        (error: Error) =>
+          resultCallback({ code: ExportResultCode.FAILED, error })
+      );
+  }
+
+  shutdown(): Promise<void> {
+    return this.writing;
+  }
+}
+
+/**
+ * Registers the tracer provider and the HTTP, Express and Prisma
+ * instrumentations. Call it before express, http or the PrismaClient
+ * are loaded, or their calls are not traced.
+ */
+export const startTracing = ({
+  serviceName,
+  exporter,
+  otlpEndpoint,
+  file
+}: TracingOptions): Tracing => {
+  const spanExporter: SpanExporter | undefined =
+    exporter === "otlp"
+      ? new OTLPTraceExporter({ url: otlpEndpoint })
+      : exporter === "file"
+        ? new FileSpanExporter(file)
+        : undefined;
+
+  const provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({
+      [ATTR_SERVICE_NAME]: serviceName
+    }),
+    spanProcessors: spanExporter ? [new BatchSpanProcessor(spanExporter)] : []
+  });
+
+  // the default W3C trace context propagator
+  provider.register();
+
+  registerInstrumentations({
+    tracerProvider: provider,
+    instrumentations: [
+      new HttpInstrumentation(),
+      new ExpressInstrumentation(),
+      new PrismaInstrumentation()
+    ]
+  });
+
+  return {
+    shutdown: () => provider.shutdown()
+  };
+};
+
+/**
+ * The W3C trace context of `ctx` as plain headers, e.g. `traceparent`.
+ */
+export const injectTraceContext = (
+  ctx: Context = context.active()
+): Record<string, string> => {
+  const carrier: Record<string, string> = {};
+  propagation.inject(ctx, carrier);
+  return carrier;
+};
+
+/**
+ * Marks the active span as failed, for errors that are handled
+ * and so never reach `withSpan`.
+ */
+export const markSpanFailed = (error: unknown): void => {
+  const span = trace.getActiveSpan();
+
+  if (error instanceof Error) {
+    span?.recordException(error);
+  }
+  span?.setStatus({
+    code: SpanStatusCode.ERROR,
+    message: error instanceof Error ? error.message : String(error)
+  });
+};
+
+/**
+ * Runs `fn` in a new active span below `parent` and ends the span with it.
+ * A rejection marks the span as failed and is passed on.
+ */
+export const withSpan = <T>(
+  name: string,
+  options: SpanOptions,
+  parent: Context,
+  fn: (span: Span) => Promise<T>
+): Promise<T> => {
+  return tracer.startActiveSpan(name, options, parent, async (span) => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      markSpanFailed(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+};
+
+/**
+ * The context carried by headers written with `injectTraceContext`.
+ */
+export const extractTraceContext = (carrier: unknown): Context => {
+  if (typeof carrier !== "object" || carrier === null) {
+    return ROOT_CONTEXT;
+  }
+  return propagation.extract(ROOT_CONTEXT, carrier);
+};
+
+/**
+ * Runs `fn` in the context carried by headers written with `injectTraceContext`.
+ */
+export const withTraceContext = <T>(carrier: unknown, fn: () => T): T =>
+  context.with(extractTraceContext(carrier), fn);
+
+/**
+ * Runs `fn` without tracing, e.g. for polling that would flood the traces.
+ */
+export const withoutTracing = <T>(fn: () => T): T =>
+  context.with(suppressTracing(ROOT_CONTEXT), fn);
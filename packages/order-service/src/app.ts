@@ -1,199 +1,186 @@
-import express, { type Express } from "express";
+import express, { type Express, type Response } from "express";
 import { createServer } from "http";
 import cors from "cors";
 import config from "./config";
 import { errorHandler } from "./middleware/errorHandler";
 import logger from "./middleware/logger";
+import tracing from "./tracing";
 import axios from "axios";
 
-import amqp, { Channel, Connection } from "amqplib";
-import promClient, { Gauge } from "prom-client";
-import os from "os";
+import {
+  createServiceMetrics,
+  checkHealth,
+  CircuitOpenError,
+  createHttpClient,
+  createHttpClientMetrics,
+  createMessagingMetrics,
+  correlationMiddleware,
+  deadlineMiddleware,
+  isClientErrorResponse,
+  isTimeoutError,
+  isUnavailableResponse,
+  setLogContext,
+  startQueueMonitor,
+  shutdownGracefully
+} from "observability";
 
 import { PrismaClient } from "@prisma/client";
+import {
+  consumeMessages,
+  createRabbitConnection,
+  enqueueMessage,
+  MessageValidationError,
+  startOutboxRelay,
+  topology,
+  type CheckInventoryResponse,
+  type CreateTrackerResponse,
+  type OrderStatus,
+  type PaymentProcessedResponse
+} from "contracts";
+import { authenticate, requireOperator } from "./middleware/auth";
+import {
+  createOrder,
+  parseCancelRequest,
+  parseOrderRequest,
+  UnknownProductsError,
+  UnknownUserError
+} from "./orders";
+import {
+  fulfillOrderSaga,
+  handleSagaMessage,
+  requestOrderCancel,
+  startOrderSaga
+} from "./saga";
 
 // Create a singleton PrismaClient instance
 const prisma = new PrismaClient();
-export type CheckInventoryResponse = {
-  orderId: string;
-  isAvailable: boolean;
-};
-
-export type CreateTrackerResponse = {
-  trackerId: string;
-  status: OrderStatus;
-};
-
-export type PaymentProcessedResponse = {
-  orderId: string;
-  status: PaymentStatus;
-};
-
-export type MessageTypes =
-  | "order.created"
-  | "inventory.checked"
-  | "payment.processed";
-
-export type OrderCreatedMessage = {
-  orderId: string;
-  productIds: string[];
-};
-export type InventoryCheckedMessage = {
-  orderId: string;
-  isAvailable: boolean;
-};
-
-export type PaymentProcessedMessage = {
-  orderId: string;
-  status: PaymentStatus;
-};
-
-export type QueueMessage =
-  | { message: "order.created"; data: OrderCreatedMessage }
-  | { message: "inventory.checked"; data: InventoryCheckedMessage }
-  | { message: "payment.processed"; data: PaymentProcessedMessage };
 
-export type PaymentStatus = "success" | "failed";
+// HTTP, CPU and Node.js metrics, served on /metrics
+const metrics = createServiceMetrics({
+  app: config.app.name,
+  cpuSampleInterval: config.metrics.cpuSampleInterval
+});
 
-export type OrderStatus = "created" | "paid" | "canceled";
-// prometheus metrics
-const register = new promClient.Registry();
+// publishes, consumes, handler latency and queue depth of the message flow
+const messagingMetrics = createMessagingMetrics(metrics.register);
 
-register.setDefaultLabels({
-  app: "order-service"
-});
+axios.defaults.headers.common["Cache-Control"] =
+  "no-cache, no-store, must-revalidate";
+axios.defaults.headers.common["Pragma"] = "no-cache";
+axios.defaults.headers.common["Expires"] = "0";
 
-// Create a histogram metric
-const httpRequestDurationMs = new promClient.Histogram({
-  name: "http_request_duration_ms",
-  help: "Duration of HTTP requests in milliseconds",
-  labelNames: ["method", "route", "status_code"],
-  buckets: [50, 100, 300, 500, 1000, 1500, 2000, 5000] // Define latency buckets in milliseconds
-});
-register.registerMetric(httpRequestDurationMs);
+// the v1 flow calls the other services through one client each,
+// with deadlines, retries and a circuit breaker per service
+const httpClientMetrics = createHttpClientMetrics(metrics.register);
 
-const httpRequestsTotal = new promClient.Counter({
-  name: "http_requests_total",
-  help: "Total number of HTTP requests",
-  labelNames: ["method", "route", "status_code"]
+const inventoryClient = createHttpClient({
+  dependency: "inventory-service",
+  baseURL: config.services.inventory_service.url,
+  ...config.httpClient,
+  metrics: httpClientMetrics
 });
-register.registerMetric(httpRequestsTotal);
 
-const activeConnections = new promClient.Gauge({
-  name: "active_connections",
-  help: "Number of active connections to the server"
+const trackingClient = createHttpClient({
+  dependency: "order-tracking-service",
+  baseURL: config.services.order_tracking_service.url,
+  ...config.httpClient,
+  metrics: httpClientMetrics
 });
-register.registerMetric(activeConnections);
 
-// Define the Prometheus gauge metric
-const cpuUsageGauge = new Gauge({
-  name: "node_cpu_usage_percentage",
-  help: "CPU usage as a percentage"
+const paymentClient = createHttpClient({
+  dependency: "payment-service",
+  baseURL: config.services.payment_service.url,
+  ...config.httpClient,
+  metrics: httpClientMetrics
 });
-register.registerMetric(cpuUsageGauge);
-
-promClient.collectDefaultMetrics({ register });
 
-// ====================
-
-// Variables to track previous CPU times
-let previousIdle: number = 0;
-let previousTotal: number = 0;
+/**
+ * Answers a request whose call to another service failed: 503 while the
+ * service's circuit breaker is open or when it answered 503 itself,
+ * 504 when the call ran out of time, 500 otherwise.
+ */
+const respondDependencyFailure = (
+  res: Response,
+  error: unknown,
+  message: string
+): void => {
+  if (error instanceof CircuitOpenError) {
+    res.set("Retry-After", String(Math.ceil(error.retryAfter / 1000)));
+    res.status(503).json({ error: error.message });
+    return;
+  }
 
-// Function to calculate CPU usage percentage over an interval
-function getCpuUsagePercentage(): string {
-  const cpus = os.cpus();
-  let totalIdle = 0;
-  let totalTick = 0;
+  // pass the unavailability of a service further down on to the caller
+  if (isUnavailableResponse(error)) {
+    const retryAfter: unknown = error.response.headers["retry-after"];
 
-  cpus.forEach((core) => {
-    for (const type in core.times) {
-      totalTick += core.times[type as keyof typeof core.times];
+    if (typeof retryAfter === "string") {
+      res.set("Retry-After", retryAfter);
     }
-    totalIdle += core.times.idle;
-  });
-
-  // Calculate deltas
-  const idleDelta = totalIdle - previousIdle;
-  const totalDelta = totalTick - previousTotal;
-
-  // Update previous values
-  previousIdle = totalIdle;
-  previousTotal = totalTick;
-
-  // Avoid division by zero
-  if (totalDelta === 0) {
-    return "0.00";
+    res.status(503).json({ error: message });
+    return;
   }
 
-  const usagePercentage = ((totalDelta - idleDelta) / totalDelta) * 100;
-  return usagePercentage.toFixed(2);
-}
-
-// Periodically update the Prometheus gauge metric
-setInterval((): void => {
-  const usage = getCpuUsagePercentage();
-  cpuUsageGauge.set(Number(usage));
-}, 5000);
-
-axios.defaults.validateStatus = (status) => {
-  return status < 500;
+  if (error instanceof Error) {
+    logger.error(error.message);
+  }
+  res.status(isTimeoutError(error) ? 504 : 500).json({ error: message });
 };
-axios.defaults.headers.common["Cache-Control"] =
-  "no-cache, no-store, must-revalidate";
-axios.defaults.headers.common["Pragma"] = "no-cache";
-axios.defaults.headers.common["Expires"] = "0";
-
-const app: Express = express();
-const server = createServer(app);
-
-let channel: Channel;
-
-const connectRabbit = async () => {
-  logger.info("Trying to connect to RabbitMQ...");
-
-  let conn: Connection;
 
+/**
+ * Gives up the stock a failed v1 order holds. Best effort,
+ * a hold that could not be released expires on its own.
+ */
+const releaseStock = async (orderId: string): Promise<void> => {
   try {
-    conn = await amqp.connect(config.rabbitmq.url);
-  } catch (err) {
-    logger.error("Unable to connect to RabbitMQ: ", err);
-    setTimeout(
-      async () => await connectRabbit(),
-      config.rabbitmq.retryInterval
+    await inventoryClient.patch(
+      `${config.services.inventory_service.endpoint.v1}/release/${orderId}`,
+      undefined,
+      { idempotent: true }
     );
-    return;
-  }
-
-  logger.info("Successfully connected to RabbitMQ");
-
-  conn.on("close", async function (err: Error) {
-    console.error("Rabbit connection closed with error: ", err);
-    setTimeout(
-      async () => await connectRabbit(),
-      config.rabbitmq.retryInterval
+  } catch (error) {
+    logger.warn(
+      `Could not release the stock of order ${orderId}: ${error instanceof Error ? error.message : error}`
     );
-  });
-
-  channel = await conn.createChannel();
-
-  await channel.assertExchange(config.rabbitmq.exchanges[1], "fanout", {
-    durable: false
-  });
+  }
+};
 
-  const queues = Object.values(config.rabbitmq.queues);
+const app: Express = express();
+const server = createServer(app);
 
-  console.log(queues);
+// reconnects with backoff and re-attaches the consumers after every reconnect
+const rabbit = createRabbitConnection(config.rabbitmq, logger);
+void rabbit.addConsumer((channel) =>
+  consumeMessages(
+    channel,
+    {
+      queue: topology.queues.order.name,
+      prisma,
+      logger,
+      metrics: messagingMetrics
+    },
+    (parsedMessage, tx) => handleSagaMessage(tx, parsedMessage)
+  )
+);
+
+rabbit.connect();
+
+const queueMonitor = startQueueMonitor(
+  rabbit.getChannel,
+  messagingMetrics,
+  logger,
+  {
+    queues: [topology.queues.order.name, `${topology.queues.order.name}.dlq`],
+    interval: config.metrics.queueInterval
+  }
+);
 
-  for (const queue of queues) {
-    const q = await channel.assertQueue(queue);
+const relay = startOutboxRelay(prisma, rabbit.getChannel, logger, {
+  source: config.app.name,
+  ...config.outbox,
+  metrics: messagingMetrics
+});
 
-    await channel.bindQueue(q.queue, config.rabbitmq.exchanges[1], "");
-  }
-};
-(async () => {
-  await connectRabbit();
-})();
 // parse json request body
 app.use(express.json());
 
@@ -202,94 +189,141 @@ app.use(express.urlencoded({ extended: true }));
 
 app.use(cors({ origin: String(config.cors.origin).split("|") ?? "*" }));
 
-app.use((req, res, next) => {
-  activeConnections.inc(); // Increment on new connection
-  const start = Date.now();
-  res.on("finish", () => {
-    const duration = Date.now() - start; // Calculate duration in milliseconds
-
-    httpRequestDurationMs.observe(
-      {
-        method: req.method,
-        route: req.route?.path || req.url,
-        status_code: res.statusCode
-      },
-      duration
-    );
+// request logs carry the correlation id and, once known, the orderId
+app.use(correlationMiddleware);
 
-    // Track total requests
-    httpRequestsTotal.inc({
-      method: req.method,
-      route: req.route?.path || req.url,
-      status_code: res.statusCode
-    });
+// calls to other services give up when the caller does
+app.use(deadlineMiddleware);
 
-    activeConnections.dec(); // Decrement when response finishes
-  });
+app.param("id", (_req, _res, next, id: string) => {
+  setLogContext({ orderId: id });
   next();
 });
 
-app.get("/metrics", async (_req, res) => {
-  res.setHeader("Content-Type", register.contentType);
-  res.send(await register.metrics());
-});
+app.use(metrics.httpMetrics);
+
+app.get("/metrics", metrics.metricsHandler);
 
 app.get("/", (_req, res) => {
   res.status(200).json({ msg: "Up" });
 });
 
-app.post("/api/v1/order", async (req, res) => {
+// the process is up and serving requests
+app.get("/health/live", (_req, res) => {
+  res.set("Cache-Control", "no-cache, no-store, must-revalidate");
+  res.set("Pragma", "no-cache");
+  res.set("Expires", "0");
+  res.status(200).json({ status: "live" });
+});
+
+// the service can do its work, 503 if a critical dependency is down
+app.get("/health/ready", async (_req, res) => {
+  res.set("Cache-Control", "no-cache, no-store, must-revalidate");
+  res.set("Pragma", "no-cache");
+  res.set("Expires", "0");
+
+  const report = await checkHealth(
+    {
+      rabbitmq: {
+        critical: true,
+        check: () => {
+          if (!rabbit.getChannel()) {
+            throw new Error("No channel to RabbitMQ");
+          }
+        }
+      },
+      consumers: {
+        critical: true,
+        check: () => {
+          const { attached, registered } = rabbit.getConsumerCount();
+
+          if (attached < registered) {
+            throw new Error(`${attached} of ${registered} consumers attached`);
+          }
+        }
+      },
+      database: {
+        critical: true,
+        check: () => prisma.$queryRaw`SELECT 1`
+      },
+      // downstream services are only used by the v1 flow
+      inventory_service: {
+        critical: false,
+        check: () =>
+          axios.get(`${config.services.inventory_service.url}/health/live`, {
+            timeout: config.health.timeout
+          })
+      },
+      order_tracking_service: {
+        critical: false,
+        check: () =>
+          axios.get(
+            `${config.services.order_tracking_service.url}/health/live`,
+            {
+              timeout: config.health.timeout
+            }
+          )
+      },
+      payment_service: {
+        critical: false,
+        check: () =>
+          axios.get(`${config.services.payment_service.url}/health/live`, {
+            timeout: config.health.timeout
+          })
+      }
+    },
+    config.health.timeout
+  );
+
+  res.status(report.status === "not_ready" ? 503 : 200).json(report);
+});
+
+app.post("/api/v1/order", authenticate, async (req, res) => {
   res.set("Cache-Control", "no-cache, no-store, must-revalidate");
   res.set("Pragma", "no-cache");
   res.set("Expires", "0");
-  const { productId } = req.body;
+  const { request, error } = parseOrderRequest(req.body);
 
   // validate body
-  if (!productId) {
-    res.status(400).json({ error: "productId is required" });
+  if (error !== undefined) {
+    res.status(400).json({ error });
     return;
   }
 
   // if order in stock create order in db
   try {
-    const createdOrder = await prisma.order.create({
-      data: {
-        user: {
-          connect: {
-            id: "3c3e02d1-af13-412a-b309-5382155a6bd4"
-          }
-        }
-      }
-    });
+    const createdOrder = await createOrder(prisma, res.locals.userId, request);
+    setLogContext({ orderId: createdOrder.id });
 
     // send to inventory service
     try {
-      const inventoryResponse = await axios.get<CheckInventoryResponse>(
-        `${config.services.inventory_service.url}${config.services.inventory_service.endpoint.v1}`,
-        {
-          data: {
-            orderId: createdOrder.id,
-            productIds: [productId]
+      const inventoryResponse =
+        await inventoryClient.get<CheckInventoryResponse>(
+          config.services.inventory_service.endpoint.v1,
+          {
+            data: {
+              orderId: createdOrder.id,
+              items: request.items
+            }
           }
-        }
-      );
+        );
 
-      if (
-        inventoryResponse.status !== 200 ||
-        !inventoryResponse.data.isAvailable
-      ) {
-        res.status(400).json({ error: `Product ${productId} not available` });
+      if (!inventoryResponse.data.isAvailable) {
+        res.status(400).json({ error: "Products not available" });
         return;
       }
     } catch (error) {
-      if (error instanceof Error) {
-        logger.error(error.message);
-        console.log(error);
+      if (isClientErrorResponse(error)) {
+        res.status(400).json({ error: "Products not available" });
+        return;
       }
-      res.status(500).json({
-        error: "Internal Server Error while calling inventory Endpoint"
-      });
-
+      // a call that timed out may still have reserved the stock
+      await releaseStock(createdOrder.id);
+      respondDependencyFailure(
+        res,
+        error,
+        "Internal Server Error while calling inventory Endpoint"
+      );
       return;
     }
 
@@ -297,95 +331,121 @@ app.post("/api/v1/order", async (req, res) => {
 
     // send create request to order tracking service
     try {
-      const createTrackerResponse = await axios.post<CreateTrackerResponse>(
-        `${config.services.order_tracking_service.url}${config.services.order_tracking_service.endpoint.v1}/create`,
-        {
-          orderId: createdOrder.id
-        },
-        {
-          headers: {
-            "Content-Type": "application/json"
+      const createTrackerResponse =
+        await trackingClient.post<CreateTrackerResponse>(
+          `${config.services.order_tracking_service.endpoint.v1}/create`,
+          {
+            orderId: createdOrder.id
+          },
+          {
+            headers: {
+              "Content-Type": "application/json",
+              // recorded as the source of the tracker status change
+              "X-Source-Service": config.app.name
+            }
           }
-        }
-      );
+        );
 
-      if (createTrackerResponse.status !== 201) {
+      trackerId = createTrackerResponse.data.trackerId;
+    } catch (error) {
+      await releaseStock(createdOrder.id);
+
+      if (isClientErrorResponse(error)) {
         res.status(400).json({
           error: `Failed to create tracker for order ${createdOrder.id}`
         });
         return;
       }
-
-      trackerId = createTrackerResponse.data.trackerId;
-    } catch (error) {
-      if (error instanceof Error) {
-        logger.error(error.message);
-      }
-      res.status(500).json({
-        error: "Internal Server Error while calling create tracker Endpoint"
-      });
-
+      respondDependencyFailure(
+        res,
+        error,
+        "Internal Server Error while calling create tracker Endpoint"
+      );
       return;
     }
 
     // if in stock send to payment service
+    let paid: boolean;
     try {
-      const paymentResponse = await axios.post<PaymentProcessedResponse>(
-        `${config.services.payment_service.url}${config.services.payment_service.endpoint.v1}/`,
-        {
-          orderId: createdOrder.id
-        }
-      );
-
-      if (
-        paymentResponse.status !== 200 ||
-        paymentResponse.data.status !== "success"
-      ) {
-        // update tracker to status canceled
-        await axios.patch(
-          `${config.services.order_tracking_service.url}${config.services.order_tracking_service.endpoint.v1}/update/${trackerId}`,
-          {
-            newStatus: "canceled" as OrderStatus
-          },
+      const paymentResponse =
+        await paymentClient.post<PaymentProcessedResponse>(
+          `${config.services.payment_service.endpoint.v1}/`,
           {
-            headers: {
-              "Content-Type": "application/json"
-            }
+            orderId: createdOrder.id
           }
         );
 
-        res.status(400).json({ error: `Product ${productId} couldnt be paid` });
+      paid = paymentResponse.data.status === "success";
+    } catch (error) {
+      // another request for the order is still being paid,
+      // its outcome decides what happens to the stock
+      if (axios.isAxiosError(error) && error.response?.status === 409) {
+        res.status(409).json({
+          error: `Payment of order ${createdOrder.id} is still in progress`
+        });
         return;
       }
-    } catch (error) {
-      if (error instanceof Error) {
-        logger.error(error.message);
+      if (!isClientErrorResponse(error)) {
+        await releaseStock(createdOrder.id);
+        respondDependencyFailure(
+          res,
+          error,
+          "Internal Server Error while calling payment Endpoint"
+        );
+        return;
       }
-      res.status(500).json({
-        error: "Internal Server Error while calling payment Endpoint"
-      });
+      // declined, e.g. the balance is too low
+      paid = false;
+    }
 
-      return;
+    if (!paid) {
+      await releaseStock(createdOrder.id);
     }
 
-    // update tracker to status paid
-    await axios.patch(
-      `${config.services.order_tracking_service.url}${config.services.order_tracking_service.endpoint.v1}/update/${trackerId}`,
-      {
-        newStatus: "paid" as OrderStatus
-      },
-      {
-        headers: {
-          "Content-Type": "application/json"
+    // setting a status twice is a no-op, so the update can be retried
+    try {
+      await trackingClient.patch(
+        `${config.services.order_tracking_service.endpoint.v1}/update/${trackerId}`,
+        {
+          newStatus: (paid ? "paid" : "canceled") satisfies OrderStatus
+        },
+        {
+          idempotent: true,
+          headers: {
+            "Content-Type": "application/json",
+            "X-Source-Service": config.app.name
+          }
         }
-      }
-    );
+      );
+    } catch (error) {
+      respondDependencyFailure(
+        res,
+        error,
+        "Internal Server Error while calling update tracker Endpoint"
+      );
+      return;
+    }
+
+    if (!paid) {
+      res.status(400).json({
+        error: `Order ${createdOrder.id} couldnt be paid`
+      });
+      return;
+    }
 
     res.status(201).json({
       msg: "Order Created and successfully paid",
       order: createdOrder
     });
   } catch (error) {
+    if (error instanceof UnknownUserError) {
+      res.status(401).json({ error: error.message });
+      return;
+    }
+    if (error instanceof UnknownProductsError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
     if (error instanceof Error) {
       logger.error(error.message);
     }
@@ -397,7 +457,7 @@ app.post("/api/v1/order", async (req, res) => {
   }
 });
 
-app.get("/api/v1/order/:id", async (req, res) => {
+app.get("/api/v1/order/:id", authenticate, async (req, res) => {
   res.set("Cache-Control", "no-cache, no-store, must-revalidate");
   res.set("Pragma", "no-cache");
   res.set("Expires", "0");
@@ -408,10 +468,11 @@ app.get("/api/v1/order/:id", async (req, res) => {
     return;
   }
   try {
-    const order = await prisma.order.findUnique({
-      where: { id },
+    // orders of other users are reported as not found
+    const order = await prisma.order.findFirst({
+      where: { id, userId: res.locals.userId },
       include: {
-        products: true,
+        items: true,
         user: true,
         track: true
       }
@@ -433,58 +494,164 @@ app.get("/api/v1/order/:id", async (req, res) => {
   }
 });
 
-app.post("/api/v2/order", async (req, res) => {
+app.post("/api/v2/order", authenticate, async (req, res) => {
   res.set("Cache-Control", "no-cache, no-store, must-revalidate");
   res.set("Pragma", "no-cache");
   res.set("Expires", "0");
-  const { productId } = req.body;
+  const { request, error } = parseOrderRequest(req.body);
 
   // validate body
-  if (!productId) {
-    res.status(400).json({ error: "productId is required" });
+  if (error !== undefined) {
+    res.status(400).json({ error });
     return;
   }
 
-  // create order in db
-  const createdOrder = await prisma.order.create({
-    data: {
-      user: {
-        connect: {
-          id: "3c3e02d1-af13-412a-b309-5382155a6bd4"
-        }
-      }
-    }
-  });
+  // create order and its order.created event in one transaction,
+  // the outbox relay publishes the event
+  try {
+    const createdOrder = await prisma.$transaction(async (tx) => {
+      const order = await createOrder(tx, res.locals.userId, request);
+      setLogContext({ orderId: order.id });
 
-  //@ts-ignore
-  if (!channel) {
-    throw new Error("RabbitMQ channel not available");
-  }
+      await startOrderSaga(tx, order.id);
 
-  // publish order.created
-  const sent = channel.publish(
-    config.rabbitmq.exchanges[1],
-    "",
-    Buffer.from(
-      JSON.stringify({
+      await enqueueMessage(tx, config.app.name, {
         message: "order.created",
         data: {
-          orderId: createdOrder.id,
-          productIds: [productId]
+          orderId: order.id,
+          items: request.items
         }
-      } as QueueMessage)
-    )
-  );
+      });
+
+      return order;
+    });
 
-  if (sent) {
     res.status(201).json({
       msg: "Order Created",
       order: createdOrder
     });
-    console.log("Order created and published: order.created");
-  } else {
+  } catch (error) {
+    if (error instanceof UnknownUserError) {
+      res.status(401).json({ error: error.message });
+      return;
+    }
+    if (
+      error instanceof MessageValidationError ||
+      error instanceof UnknownProductsError
+    ) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    if (error instanceof Error) {
+      logger.error(error.message);
+    }
     res.status(500).json({
-      error: "Internal Server Error while sending message to order queue"
+      error: "Internal Server Error while creating order"
+    });
+  }
+});
+
+app.post(
+  "/api/v2/order/:id/fulfill",
+  authenticate,
+  requireOperator,
+  async (req, res) => {
+    res.set("Cache-Control", "no-cache, no-store, must-revalidate");
+    res.set("Pragma", "no-cache");
+    res.set("Expires", "0");
+    const { id } = req.params;
+
+    // mark the order fulfilled and write order.fulfilled in one transaction,
+    // payment captures the authorized total when it gets the event
+    try {
+      const fulfilled = await prisma.$transaction(async (tx) => {
+        // operators fulfil the orders of every user
+        const order = await tx.order.findUnique({
+          where: { id },
+          select: { id: true }
+        });
+
+        if (!order) {
+          return undefined;
+        }
+
+        return fulfillOrderSaga(tx, order.id);
+      });
+
+      if (fulfilled === undefined) {
+        res.status(404).json({ error: "Order not found" });
+        return;
+      }
+
+      if (!fulfilled) {
+        res.status(409).json({ error: "Order is not completed" });
+        return;
+      }
+
+      res.status(202).json({ msg: "Order Fulfilled" });
+    } catch (error) {
+      if (error instanceof Error) {
+        logger.error(error.message);
+      }
+      res.status(500).json({
+        error: "Internal Server Error while fulfilling order"
+      });
+    }
+  }
+);
+
+app.post("/api/v2/order/:id/cancel", authenticate, async (req, res) => {
+  res.set("Cache-Control", "no-cache, no-store, must-revalidate");
+  res.set("Pragma", "no-cache");
+  res.set("Expires", "0");
+  const { id } = req.params;
+  const { request, error } = parseCancelRequest(req.body);
+
+  // validate body
+  if (error !== undefined) {
+    res.status(400).json({ error });
+    return;
+  }
+
+  // write order.cancel_requested, the saga cancels the order according to
+  // its current step and publishes order.canceled with the compensations
+  try {
+    const result = await prisma.$transaction(async (tx) => {
+      // orders of other users are reported as not found
+      const order = await tx.order.findFirst({
+        where: { id, userId: res.locals.userId },
+        include: { saga: true }
+      });
+
+      if (!order) {
+        return { status: 404, error: "Order not found" };
+      }
+
+      // v1 orders have no saga that could revert them
+      if (!order.saga) {
+        return { status: 409, error: "Only v2 orders can be canceled" };
+      }
+
+      // a refund requires a fulfilled order, so refunded orders end up here too
+      if (!(await requestOrderCancel(tx, order.saga, request.reason))) {
+        return { status: 409, error: `Order is ${order.saga.status} already` };
+      }
+
+      return undefined;
+    });
+
+    if (result) {
+      res.status(result.status).json({ error: result.error });
+      return;
+    }
+
+    res.status(202).json({ msg: "Order Cancel Requested" });
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(error.message);
+    }
+    res.status(500).json({
+      error: "Internal Server Error while canceling order"
     });
   }
 });
@@ -498,4 +665,37 @@ app.all("*", (_req, res) => {
 
 app.use(errorHandler);
 
+/**
+ * Stops taking new requests and messages, waits for the ones in flight
+ * up to the shutdown timeout, then closes RabbitMQ and the database.
+ * Resolves to false if anything was cut off or failed to close.
+ */
+export const shutdown = (): Promise<boolean> =>
+  shutdownGracefully(logger, config.shutdown.timeout, {
+    drain: [
+      {
+        name: "HTTP server",
+        run: () =>
+          new Promise<void>((resolve, reject) => {
+            server.close((error) => (error ? reject(error) : resolve()));
+            server.closeIdleConnections();
+          })
+      },
+      { name: "consumers", run: () => rabbit.stopConsuming() }
+    ],
+    close: [
+      // requests still running after the timeout are cut off
+      {
+        name: "HTTP connections",
+        run: async () => server.closeAllConnections()
+      },
+      { name: "outbox relay", run: () => relay.stop() },
+      { name: "metrics", run: async () => metrics.stop() },
+      { name: "queue monitor", run: async () => queueMonitor.stop() },
+      { name: "RabbitMQ", run: () => rabbit.close() },
+      { name: "database", run: () => prisma.$disconnect() },
+      { name: "tracing", run: () => tracing.shutdown() }
+    ]
+  });
+
 export default server;
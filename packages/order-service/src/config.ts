@@ -11,7 +11,15 @@ const envSchema = Joi.object().keys({
   PORT: Joi.number().port().required().default(4041),
   HOST: Joi.string().required(),
   CORS_ORIGIN: Joi.string().required().default("*"),
-  RABBITMQ_URL: Joi.string().required()
+  RABBITMQ_URL: Joi.string().required(),
+  OTEL_TRACES_EXPORTER: Joi.string()
+    .valid("otlp", "file", "none")
+    .default("none"),
+  OTEL_EXPORTER_OTLP_TRACES_ENDPOINT: Joi.string()
+    .uri()
+    .default("http://localhost:4318/v1/traces"),
+  TRACES_FILE: Joi.string().default("traces.jsonl"),
+  JWT_SECRET: Joi.string().min(32).required()
 });
 
 const { value: validatedEnv, error } = envSchema
@@ -29,23 +37,58 @@ if (error) {
 const config = {
   node_env: validatedEnv.NODE_ENV,
   app: {
+    name: "order-service",
     port: validatedEnv.PORT,
     host: validatedEnv.HOST
   },
   cors: {
     origin: validatedEnv.CORS_ORIGIN
   },
+  auth: {
+    // tokens are signed with a shared secret, the subject is the user id
+    jwtSecret: validatedEnv.JWT_SECRET,
+    algorithm: "HS256"
+  },
   rabbitmq: {
     url: validatedEnv.RABBITMQ_URL,
-    queues: {
-      "iventory-queue": "inventory-queue",
-      "payment-queue": "payment-queue",
-      "track-queue": "track-queue"
-    },
-    exchanges: {
-      1: "order-exchange"
-    },
-    retryInterval: 5000
+    // saga events are applied one at a time, in the order they arrive
+    prefetch: 1,
+    retryInterval: 5000,
+    maxRetryInterval: 30000
+  },
+  shutdown: {
+    // how long in-flight requests and messages get to finish
+    timeout: 10000
+  },
+  health: {
+    // per dependency check
+    timeout: 2000
+  },
+  metrics: {
+    // how often the depth and consumers of the queues are sampled
+    queueInterval: 15000,
+    cpuSampleInterval: 5000
+  },
+  tracing: {
+    exporter: validatedEnv.OTEL_TRACES_EXPORTER,
+    otlpEndpoint: validatedEnv.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT,
+    file: validatedEnv.TRACES_FILE
+  },
+  httpClient: {
+    // deadline of a call to another service, including retries
+    timeout: 5000,
+    retries: 2,
+    retryInterval: 100,
+    // consecutive failures that open the circuit breaker of a service
+    failureThreshold: 5,
+    // how long an open breaker fails calls fast before it tries again
+    resetTimeout: 10000
+  },
+  outbox: {
+    pollInterval: 1000,
+    batchSize: 50,
+    maxAttempts: 10,
+    publishTimeout: 5000
   },
   services: {
     order_service: {
@@ -0,0 +1,7 @@
+import { createAuthenticate, requireRole } from "auth";
+import config from "../config";
+
+export const authenticate = createAuthenticate(config.auth);
+
+// staff that ships orders, fulfils the orders of any user
+export const requireOperator = requireRole("operator");
@@ -0,0 +1,174 @@
+import type { Prisma } from "@prisma/client";
+import {
+  orderItemSchema,
+  paymentMethods,
+  type OrderItem,
+  type PaymentMethod
+} from "contracts";
+import Joi from "joi";
+
+export type CreateOrderRequest = {
+  items: OrderItem[];
+  paymentMethod: PaymentMethod;
+};
+
+const createOrderSchema = Joi.object<CreateOrderRequest>().keys({
+  items: Joi.array().items(orderItemSchema).min(1).required(),
+  paymentMethod: Joi.string()
+    .valid(...paymentMethods)
+    .default("wallet")
+});
+
+export type CancelOrderRequest = {
+  reason: string;
+};
+
+const cancelOrderSchema = Joi.object<CancelOrderRequest>().keys({
+  reason: Joi.string().max(500).default("canceled by customer")
+});
+
+// thrown when an order references products that do not exist
+export class UnknownProductsError extends Error {
+  constructor(public readonly productIds: string[]) {
+    super(`Products ${productIds.join(", ")} not found`);
+    this.name = "UnknownProductsError";
+  }
+}
+
+// thrown when the token of a request belongs to a user that does not exist
+export class UnknownUserError extends Error {
+  constructor(public readonly userId: string) {
+    super(`User ${userId} not found`);
+    this.name = "UnknownUserError";
+  }
+}
+
+/**
+ * Validates the body of a create order request.
+ * Items of the same product are merged into one item,
+ * the order is paid from the wallet unless it names another payment method.
+ */
+export const parseOrderRequest = (
+  body: unknown
+):
+  | { request: CreateOrderRequest; error?: never }
+  | { request?: never; error: string } => {
+  const { value, error } = createOrderSchema
+    .prefs({ errors: { label: "path" } })
+    .validate(body, { abortEarly: false, stripUnknown: true });
+
+  if (error) {
+    return {
+      error: error.details.map((detail) => detail.message).join(", ")
+    };
+  }
+
+  const quantities = new Map<string, number>();
+
+  for (const { productId, quantity } of value.items) {
+    quantities.set(productId, (quantities.get(productId) ?? 0) + quantity);
+  }
+
+  return {
+    request: {
+      items: [...quantities].map(([productId, quantity]) => ({
+        productId,
+        quantity
+      })),
+      paymentMethod: value.paymentMethod
+    }
+  };
+};
+
+/**
+ * Validates the body of a cancel order request.
+ */
+export const parseCancelRequest = (
+  body: unknown
+):
+  | { request: CancelOrderRequest; error?: never }
+  | { request?: never; error: string } => {
+  const { value, error } = cancelOrderSchema
+    .prefs({ errors: { label: "path" } })
+    .validate(body ?? {}, { abortEarly: false, stripUnknown: true });
+
+  if (error) {
+    return {
+      error: error.details.map((detail) => detail.message).join(", ")
+    };
+  }
+
+  return { request: value };
+};
+
+/**
+ * Creates an order of the user with its items,
+ * capturing the current product prices.
+ */
+export const createOrder = async (
+  tx: Prisma.TransactionClient,
+  userId: string,
+  { items, paymentMethod }: CreateOrderRequest
+) => {
+  const user = await tx.user.findUnique({
+    where: {
+      id: userId
+    },
+    select: {
+      id: true
+    }
+  });
+
+  if (!user) {
+    throw new UnknownUserError(userId);
+  }
+
+  const products = await tx.products.findMany({
+    where: {
+      id: {
+        in: items.map((item) => item.productId)
+      }
+    },
+    select: {
+      id: true,
+      price: true
+    }
+  });
+
+  const prices = new Map(
+    products.map((product) => [product.id, product.price])
+  );
+
+  const unknownProductIds = items
+    .map((item) => item.productId)
+    .filter((productId) => !prices.has(productId));
+
+  if (unknownProductIds.length > 0) {
+    throw new UnknownProductsError(unknownProductIds);
+  }
+
+  return tx.order.create({
+    data: {
+      user: {
+        connect: {
+          id: userId
+        }
+      },
+      paymentMethod,
+      items: {
+        create: items.map((item) => ({
+          product: {
+            connect: {
+              id: item.productId
+            }
+          },
+          quantity: item.quantity,
+          unitPrice: prices.get(item.productId)!
+        }))
+      }
+    },
+    include: {
+      items: true
+    }
+  });
+};
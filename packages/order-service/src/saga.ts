@@ -0,0 +1,411 @@
+import type { OrderSaga, Prisma } from "@prisma/client";
+import { enqueueMessage, type QueueMessage } from "contracts";
+import config from "./config";
+import logger from "./middleware/logger";
+
+/**
+ * started            -> order.created was enqueued
+ * inventory_reserved -> inventory linked the products to the order
+ * paid               -> payment authorized the total, waiting for the stock commit
+ * completed          -> stock was decremented, waiting for the fulfilment
+ * fulfilled          -> order.fulfilled was enqueued, payment captures the total
+ * refunded           -> payment refunded all of the captured total
+ * canceled           -> a step failed, order.canceled carries the compensations
+ */
+export type SagaStatus =
+  | "started"
+  | "inventory_reserved"
+  | "paid"
+  | "completed"
+  | "fulfilled"
+  | "refunded"
+  | "canceled";
+
+// the steps of the order are still running
+const ACTIVE_STATUSES: SagaStatus[] = ["started", "inventory_reserved", "paid"];
+
+// a customer can cancel the order until it is fulfilled
+const CANCELABLE_STATUSES: SagaStatus[] = [
+  "started",
+  "inventory_reserved",
+  "paid",
+  "completed"
+];
+
+/**
+ * Creates the saga state for a v2 order, call it in the order transaction.
+ */
+export const startOrderSaga = async (
+  tx: Prisma.TransactionClient,
+  orderId: string
+): Promise<void> => {
+  await tx.orderSaga.create({
+    data: {
+      orderId,
+      status: "started" satisfies SagaStatus
+    }
+  });
+};
+
+/**
+ * Moves the saga to `status` if it is still in (one of) `expected`.
+ * Returns the updated saga, or undefined for duplicate or out of order events.
+ */
+const transition = async (
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  expected: SagaStatus | SagaStatus[],
+  status: SagaStatus,
+  data: Omit<Prisma.OrderSagaUpdateManyMutationInput, "status"> = {}
+): Promise<OrderSaga | undefined> => {
+  const { count } = await tx.orderSaga.updateMany({
+    where: {
+      orderId,
+      status: {
+        in: [expected].flat()
+      }
+    },
+    data: {
+      ...data,
+      status
+    }
+  });
+
+  if (count === 0) {
+    logger.warn(
+      `Saga for order ${orderId} is not ${[expected].flat().join(" or ")}, ignoring transition to ${status}`
+    );
+    return undefined;
+  }
+
+  return tx.orderSaga.findUniqueOrThrow({
+    where: {
+      orderId
+    }
+  });
+};
+
+/**
+ * Locks the saga of the order until the transaction ends,
+ * so events of the same order are applied one after another.
+ */
+const lockSaga = async (
+  tx: Prisma.TransactionClient,
+  orderId: string
+): Promise<OrderSaga | null> => {
+  await tx.$queryRaw`SELECT id FROM "OrderSaga" WHERE "orderId" = ${orderId} FOR UPDATE`;
+
+  return tx.orderSaga.findUnique({
+    where: {
+      orderId
+    }
+  });
+};
+
+// the furthest status the recorded steps allow, each step needs the ones before
+const statusOfSteps = ({
+  inventoryReserved,
+  paymentAuthorized,
+  stockCommitted
+}: Pick<
+  OrderSaga,
+  "inventoryReserved" | "paymentAuthorized" | "stockCommitted"
+>): SagaStatus => {
+  if (!inventoryReserved) {
+    return "started";
+  }
+  if (!paymentAuthorized) {
+    return "inventory_reserved";
+  }
+  return stockCommitted ? "completed" : "paid";
+};
+
+/**
+ * Records a step that succeeded and moves the saga as far as the recorded
+ * steps allow. Returns undefined, and records nothing, if the saga is past
+ * its steps, e.g. canceled; the compensations of a cancel cover steps that
+ * report late.
+ */
+const recordStep = async (
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  step: Partial<
+    Pick<
+      OrderSaga,
+      | "inventoryReserved"
+      | "paymentAuthorized"
+      | "amountCharged"
+      | "stockCommitted"
+    >
+  >
+): Promise<OrderSaga | undefined> => {
+  const saga = await lockSaga(tx, orderId);
+
+  if (!saga || !ACTIVE_STATUSES.includes(saga.status as SagaStatus)) {
+    logger.warn(
+      `Saga for order ${orderId} is ${saga?.status ?? "missing"}, ignoring step ${Object.keys(step).join(", ")}`
+    );
+    return undefined;
+  }
+
+  return tx.orderSaga.update({
+    where: {
+      orderId
+    },
+    data: {
+      ...step,
+      status: statusOfSteps({ ...saga, ...step })
+    }
+  });
+};
+
+/**
+ * Records how much of the captured total was refunded, a full refund moves
+ * a fulfilled saga to `refunded`. Refund events may arrive in any order,
+ * the highest refunded amount wins.
+ */
+const recordRefund = async (
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  refundedAmount: number,
+  fullyRefunded: boolean
+): Promise<void> => {
+  const saga = await lockSaga(tx, orderId);
+
+  if (!saga) {
+    logger.warn(`Saga for order ${orderId} is missing, ignoring refund`);
+    return;
+  }
+
+  await tx.orderSaga.update({
+    where: {
+      orderId
+    },
+    data: {
+      amountRefunded: Math.max(saga.amountRefunded, refundedAmount),
+      ...(fullyRefunded &&
+        saga.status === ("fulfilled" satisfies SagaStatus) && {
+          status: "refunded" satisfies SagaStatus
+        })
+    }
+  });
+};
+
+/**
+ * Cancels the order and requests a compensating action
+ * for every step that already succeeded. With `inFlight` the inventory steps
+ * that may still be running are compensated as well, inventory skips what
+ * did not happen. Payment voids an authorization either way.
+ */
+const cancel = async (
+  tx: Prisma.TransactionClient,
+  saga: OrderSaga,
+  reason: string,
+  { inFlight = false }: { inFlight?: boolean } = {}
+): Promise<void> => {
+  await enqueueMessage(tx, config.app.name, {
+    message: "order.canceled",
+    data: {
+      orderId: saga.orderId,
+      reason,
+      compensate: {
+        releaseInventory: inFlight || saga.inventoryReserved,
+        restock: inFlight || saga.stockCommitted,
+        refundAmount: saga.amountCharged
+      }
+    }
+  });
+};
+
+/**
+ * Asks the saga to cancel the order on behalf of the customer.
+ * Returns false, and requests nothing, if the order is fulfilled or
+ * canceled already.
+ */
+export const requestOrderCancel = async (
+  tx: Prisma.TransactionClient,
+  saga: OrderSaga,
+  reason: string
+): Promise<boolean> => {
+  if (!CANCELABLE_STATUSES.includes(saga.status as SagaStatus)) {
+    return false;
+  }
+
+  await enqueueMessage(tx, config.app.name, {
+    message: "order.cancel_requested",
+    data: {
+      orderId: saga.orderId,
+      reason
+    }
+  });
+
+  return true;
+};
+
+/**
+ * Marks a completed order as fulfilled and asks payment to capture the total.
+ * Returns false if the saga is not completed, e.g. the order was canceled.
+ */
+export const fulfillOrderSaga = async (
+  tx: Prisma.TransactionClient,
+  orderId: string
+): Promise<boolean> => {
+  const saga = await transition(tx, orderId, "completed", "fulfilled");
+
+  if (!saga) {
+    return false;
+  }
+
+  await enqueueMessage(tx, config.app.name, {
+    message: "order.fulfilled",
+    data: {
+      orderId
+    }
+  });
+
+  return true;
+};
+
+/**
+ * Applies a step result to the saga, runs in the consumer's inbox transaction.
+ * Steps may report in any order, e.g. payment.processed overtakes the
+ * inventory.checked it answers after a requeue; the saga records each one
+ * and moves on once the steps before it reported too.
+ */
+export const handleSagaMessage = async (
+  tx: Prisma.TransactionClient,
+  parsedMessage: QueueMessage
+): Promise<void> => {
+  // ========================================
+  // inventory.checked
+  // ========================================
+  if (parsedMessage.message === "inventory.checked") {
+    const { orderId, isAvailable } = parsedMessage.data;
+
+    if (!isAvailable) {
+      const reason = "Products not available";
+      const saga = await transition(tx, orderId, ACTIVE_STATUSES, "canceled", {
+        failureReason: reason
+      });
+
+      if (saga) {
+        await cancel(tx, saga, reason);
+      }
+      return;
+    }
+
+    await recordStep(tx, orderId, { inventoryReserved: true });
+  } else if (parsedMessage.message === "payment.processed") {
+    // ========================================
+    // payment.processed
+    // ========================================
+    const { orderId, status, amount } = parsedMessage.data;
+
+    if (status === "failed") {
+      const reason = "Payment failed";
+      const saga = await transition(tx, orderId, ACTIVE_STATUSES, "canceled", {
+        failureReason: reason
+      });
+
+      // the stock check may not have reported yet
+      if (saga) {
+        await cancel(tx, saga, reason, { inFlight: true });
+      }
+      return;
+    }
+
+    await recordStep(tx, orderId, {
+      paymentAuthorized: true,
+      amountCharged: amount
+    });
+  } else if (parsedMessage.message === "inventory.committed") {
+    // ========================================
+    // inventory.committed
+    // ========================================
+    const { orderId, success } = parsedMessage.data;
+
+    if (!success) {
+      const reason = "Stock could not be committed";
+      const saga = await transition(tx, orderId, ACTIVE_STATUSES, "canceled", {
+        failureReason: reason
+      });
+
+      // payment.processed may not have reported the authorization yet,
+      // payment voids it either way
+      if (saga) {
+        await cancel(tx, saga, reason, { inFlight: true });
+      }
+      return;
+    }
+
+    await recordStep(tx, orderId, { stockCommitted: true });
+  } else if (parsedMessage.message === "order.cancel_requested") {
+    // ========================================
+    // order.cancel_requested
+    // ========================================
+    const { orderId, reason } = parsedMessage.data;
+
+    // a fulfilled order is not canceled anymore, it is refunded;
+    // the customer may cancel while a step is still running
+    const saga = await transition(
+      tx,
+      orderId,
+      CANCELABLE_STATUSES,
+      "canceled",
+      {
+        failureReason: reason
+      }
+    );
+
+    if (saga) {
+      await cancel(tx, saga, reason, { inFlight: true });
+    }
+  } else if (parsedMessage.message === "payment.voided") {
+    // ========================================
+    // payment.voided
+    // ========================================
+    const { orderId, reason } = parsedMessage.data;
+
+    // the authorization is gone, there is nothing left to refund
+    const saga = await transition(
+      tx,
+      orderId,
+      ["paid", "completed"],
+      "canceled",
+      {
+        failureReason: reason,
+        amountCharged: 0
+      }
+    );
+
+    if (saga) {
+      await cancel(tx, saga, reason);
+      return;
+    }
+
+    // the authorization expired before payment got order.fulfilled,
+    // the order went out unpaid and is not canceled anymore
+    const { count } = await tx.orderSaga.updateMany({
+      where: {
+        orderId,
+        status: "fulfilled" satisfies SagaStatus
+      },
+      data: {
+        failureReason: `Payment voided after fulfilment: ${reason}`
+      }
+    });
+
+    if (count > 0) {
+      logger.error(
+        `Order ${orderId} was fulfilled but its payment was voided: ${reason}`
+      );
+    }
+  } else if (parsedMessage.message === "payment.refunded") {
+    // ========================================
+    // payment.refunded
+    // ========================================
+    const { orderId, refundedAmount, fullyRefunded } = parsedMessage.data;
+
+    await recordRefund(tx, orderId, refundedAmount, fullyRefunded);
+  }
+};
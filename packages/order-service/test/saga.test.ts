@@ -0,0 +1,174 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { PrismaClient } from "@prisma/client";
+import type { OrderCanceledMessage, QueueMessage } from "contracts";
+import { handleSagaMessage, startOrderSaga } from "../src/saga";
+
+const skip =
+  !process.env.TEST_DATABASE_URL &&
+  "set TEST_DATABASE_URL to run the database tests";
+
+describe("order saga", { skip }, () => {
+  let prisma: PrismaClient;
+
+  before(() => {
+    prisma = new PrismaClient();
+  });
+
+  after(async () => {
+    await prisma.$disconnect();
+  });
+
+  const createOrder = async (): Promise<string> => {
+    const user = await prisma.user.create({ data: {} });
+    const order = await prisma.order.create({ data: { userId: user.id } });
+
+    await prisma.$transaction((tx) => startOrderSaga(tx, order.id));
+    return order.id;
+  };
+
+  const apply = (...messages: QueueMessage[]) =>
+    messages.reduce(
+      (previous, message) =>
+        previous.then(() =>
+          prisma.$transaction((tx) => handleSagaMessage(tx, message))
+        ),
+      Promise.resolve()
+    );
+
+  const getSaga = (orderId: string) =>
+    prisma.orderSaga.findUniqueOrThrow({ where: { orderId } });
+
+  const getCancel = async (
+    orderId: string
+  ): Promise<OrderCanceledMessage | undefined> => {
+    const row = await prisma.outboxMessage.findFirst({
+      where: { orderId, type: "order.canceled" }
+    });
+
+    return (row?.payload as { data: OrderCanceledMessage } | undefined)?.data;
+  };
+
+  const checked = (orderId: string, isAvailable = true): QueueMessage => ({
+    message: "inventory.checked",
+    data: { orderId, isAvailable }
+  });
+  const processed = (
+    orderId: string,
+    status: "success" | "failed" = "success"
+  ): QueueMessage => ({
+    message: "payment.processed",
+    data: { orderId, status, amount: status === "success" ? 20 : 0 }
+  });
+  const committed = (orderId: string, success = true): QueueMessage => ({
+    message: "inventory.committed",
+    data: { orderId, success }
+  });
+
+  it("completes when the steps report in order", async () => {
+    const orderId = await createOrder();
+
+    await apply(checked(orderId));
+    assert.equal((await getSaga(orderId)).status, "inventory_reserved");
+
+    await apply(processed(orderId));
+    assert.equal((await getSaga(orderId)).status, "paid");
+
+    await apply(committed(orderId));
+    const saga = await getSaga(orderId);
+    assert.equal(saga.status, "completed");
+    assert.equal(saga.amountCharged, 20);
+  });
+
+  it("waits for the stock check when the payment reports first", async () => {
+    const orderId = await createOrder();
+
+    await apply(processed(orderId));
+    let saga = await getSaga(orderId);
+    assert.equal(saga.status, "started");
+    assert.equal(saga.paymentAuthorized, true);
+
+    await apply(checked(orderId));
+    saga = await getSaga(orderId);
+    assert.equal(saga.status, "paid");
+    assert.equal(saga.amountCharged, 20);
+  });
+
+  it("completes when the stock commit overtakes the payment", async () => {
+    const orderId = await createOrder();
+
+    await apply(checked(orderId), committed(orderId));
+    assert.equal((await getSaga(orderId)).status, "inventory_reserved");
+
+    await apply(processed(orderId));
+    assert.equal((await getSaga(orderId)).status, "completed");
+  });
+
+  it("applies a redelivered step once", async () => {
+    const orderId = await createOrder();
+
+    await apply(checked(orderId), checked(orderId), processed(orderId));
+    assert.equal((await getSaga(orderId)).status, "paid");
+  });
+
+  it("cancels and releases the stock when the payment fails before the stock check reports", async () => {
+    const orderId = await createOrder();
+
+    await apply(processed(orderId, "failed"));
+    const saga = await getSaga(orderId);
+    assert.equal(saga.status, "canceled");
+    assert.equal(saga.failureReason, "Payment failed");
+
+    const cancel = await getCancel(orderId);
+    assert.equal(cancel?.compensate.releaseInventory, true);
+
+    // the late stock check does not revive the order
+    await apply(checked(orderId));
+    assert.equal((await getSaga(orderId)).status, "canceled");
+  });
+
+  it("cancels without compensations when the products are not available", async () => {
+    const orderId = await createOrder();
+
+    await apply(checked(orderId, false));
+    assert.equal((await getSaga(orderId)).status, "canceled");
+
+    const cancel = await getCancel(orderId);
+    assert.deepEqual(cancel?.compensate, {
+      releaseInventory: false,
+      restock: false,
+      refundAmount: 0
+    });
+  });
+
+  it("moves a fulfilled order to refunded once all of it is refunded", async () => {
+    const orderId = await createOrder();
+
+    await apply(checked(orderId), processed(orderId), committed(orderId));
+    await prisma.orderSaga.update({
+      where: { orderId },
+      data: { status: "fulfilled" }
+    });
+
+    const refunded = (
+      refundedAmount: number,
+      fullyRefunded: boolean
+    ): QueueMessage => ({
+      message: "payment.refunded",
+      data: {
+        orderId,
+        amount: 10,
+        refundedAmount,
+        fullyRefunded,
+        reason: "damaged"
+      }
+    });
+
+    // the second refund overtakes the first
+    await apply(refunded(20, true), refunded(10, false));
+
+    const saga = await getSaga(orderId);
+    assert.equal(saga.status, "refunded");
+    assert.equal(saga.amountRefunded, 20);
+  });
+});
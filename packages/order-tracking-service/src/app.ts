@@ -2,184 +2,58 @@ import express, { type Express } from "express";
 import { createServer } from "http";
 import cors from "cors";
 import config from "./config";
+import { authenticate } from "./middleware/auth";
+import {
+  broadcastTracker,
+  endTrackerStreams,
+  streamTrackerUpdates
+} from "./live";
+import {
+  createTracker,
+  ensureTracker,
+  updateTrackerStatus,
+  type TrackerTrigger
+} from "./tracker";
 import { errorHandler } from "./middleware/errorHandler";
 import logger from "./middleware/logger";
-import amqp, { Channel, Connection } from "amqplib";
-import promClient, { Gauge } from "prom-client";
-import os from "os";
+import tracing from "./tracing";
+import {
+  createServiceMetrics,
+  checkHealth,
+  createMessagingMetrics,
+  correlationMiddleware,
+  deadlineMiddleware,
+  setLogContext,
+  startQueueMonitor,
+  shutdownGracefully
+} from "observability";
 
 import { PrismaClient } from "@prisma/client";
+import {
+  consumeMessages,
+  createRabbitConnection,
+  topology,
+  type CreateTrackerResponse,
+  type OrderStatus
+} from "contracts";
 
 // Create a singleton PrismaClient instance
 const prisma = new PrismaClient();
-export type CheckInventoryResponse = {
-  orderId: string;
-  isAvailable: boolean;
-};
-
-export type CreateTrackerResponse = {
-  trackerId: string;
-  status: OrderStatus;
-};
-
-export type PaymentProcessedResponse = {
-  orderId: string;
-  status: PaymentStatus;
-};
-
-export type MessageTypes =
-  | "order.created"
-  | "inventory.checked"
-  | "payment.processed";
-
-export type OrderCreatedMessage = {
-  orderId: string;
-  productIds: string[];
-};
-export type InventoryCheckedMessage = {
-  orderId: string;
-  isAvailable: boolean;
-};
-
-export type PaymentProcessedMessage = {
-  orderId: string;
-  status: PaymentStatus;
-};
-
-export type QueueMessage =
-  | { message: "order.created"; data: OrderCreatedMessage }
-  | { message: "inventory.checked"; data: InventoryCheckedMessage }
-  | { message: "payment.processed"; data: PaymentProcessedMessage };
-
-export type PaymentStatus = "success" | "failed";
-
-export type OrderStatus = "created" | "paid" | "canceled";
-
-// prometheus metrics
-const register = new promClient.Registry();
-
-register.setDefaultLabels({
-  app: "order-tracking-service"
-});
-
-// Create a histogram metric
-const httpRequestDurationMs = new promClient.Histogram({
-  name: "http_request_duration_ms",
-  help: "Duration of HTTP requests in milliseconds",
-  labelNames: ["method", "route", "status_code"],
-  buckets: [50, 100, 300, 500, 1000, 1500, 2000, 5000] // Define latency buckets in milliseconds
-});
-register.registerMetric(httpRequestDurationMs);
-
-const httpRequestsTotal = new promClient.Counter({
-  name: "http_requests_total",
-  help: "Total number of HTTP requests",
-  labelNames: ["method", "route", "status_code"]
-});
-register.registerMetric(httpRequestsTotal);
-
-const activeConnections = new promClient.Gauge({
-  name: "active_connections",
-  help: "Number of active connections to the server"
-});
-register.registerMetric(activeConnections);
 
-// Define the Prometheus gauge metric
-const cpuUsageGauge = new Gauge({
-  name: "node_cpu_usage_percentage",
-  help: "CPU usage as a percentage"
+// HTTP, CPU and Node.js metrics, served on /metrics
+const metrics = createServiceMetrics({
+  app: config.app.name,
+  cpuSampleInterval: config.metrics.cpuSampleInterval
 });
-register.registerMetric(cpuUsageGauge);
-
-promClient.collectDefaultMetrics({ register });
-
-// ====================
 
-// Variables to track previous CPU times
-let previousIdle: number = 0;
-let previousTotal: number = 0;
-
-// Function to calculate CPU usage percentage over an interval
-function getCpuUsagePercentage(): string {
-  const cpus = os.cpus();
-  let totalIdle = 0;
-  let totalTick = 0;
-
-  cpus.forEach((core) => {
-    for (const type in core.times) {
-      totalTick += core.times[type as keyof typeof core.times];
-    }
-    totalIdle += core.times.idle;
-  });
-
-  // Calculate deltas
-  const idleDelta = totalIdle - previousIdle;
-  const totalDelta = totalTick - previousTotal;
-
-  // Update previous values
-  previousIdle = totalIdle;
-  previousTotal = totalTick;
-
-  // Avoid division by zero
-  if (totalDelta === 0) {
-    return "0.00";
-  }
-
-  const usagePercentage = ((totalDelta - idleDelta) / totalDelta) * 100;
-  return usagePercentage.toFixed(2);
-}
-
-// Periodically update the Prometheus gauge metric
-setInterval((): void => {
-  const usage = getCpuUsagePercentage();
-  cpuUsageGauge.set(Number(usage));
-}, 5000);
+// publishes, consumes, handler latency and queue depth of the message flow
+const messagingMetrics = createMessagingMetrics(metrics.register);
 
 const app: Express = express();
 const server = createServer(app);
 
-let channel: Channel;
-
-const connectRabbit = async () => {
-  logger.info("Trying to connect to RabbitMQ...");
-
-  let conn: Connection;
-
-  try {
-    conn = await amqp.connect(config.rabbitmq.url);
-  } catch (err) {
-    logger.error("Unable to connect to RabbitMQ: ", err);
-    setTimeout(
-      async () => await connectRabbit(),
-      config.rabbitmq.retryInterval
-    );
-    return;
-  }
-
-  logger.info("Successfully connected to RabbitMQ");
-
-  conn.on("close", async function (err: Error) {
-    console.error("Rabbit connection closed with error: ", err);
-    setTimeout(
-      async () => await connectRabbit(),
-      config.rabbitmq.retryInterval
-    );
-  });
-
-  channel = await conn.createChannel();
-
-  await channel.assertExchange(config.rabbitmq.exchanges[1], "fanout", {
-    durable: false
-  });
-
-  const queues = Object.values(config.rabbitmq.queues);
-
-  for (const queue of queues) {
-    const q = await channel.assertQueue(queue);
-
-    await channel.bindQueue(q.queue, config.rabbitmq.exchanges[1], "");
-  }
-};
+// reconnects with backoff and re-attaches the consumers after every reconnect
+const rabbit = createRabbitConnection(config.rabbitmq, logger);
 // parse json request body
 app.use(express.json());
 
@@ -188,127 +62,153 @@ app.use(express.urlencoded({ extended: true }));
 
 app.use(cors({ origin: String(config.cors.origin).split("|") ?? "*" }));
 
-(async () => {
-  await connectRabbit();
+// request logs carry the correlation id and, once known, the tracker and order
+app.use(correlationMiddleware);
 
-  //@ts-ignore
-  if (!channel) return;
+// requests whose caller already gave up are not worked on
+app.use(deadlineMiddleware);
 
-  await channel.consume(
-    config.rabbitmq.queues["track-queue"],
-    async (msg) => {
-      if (!msg) {
-        return;
-      }
-      const m = msg.content.toString();
+app.param("trackerId", (_req, _res, next, trackerId: string) => {
+  setLogContext({ trackerId });
+  next();
+});
 
-      if (!m) {
-        return;
-      }
+void rabbit.addConsumer((channel) =>
+  consumeMessages(
+    channel,
+    {
+      queue: topology.queues.tracking.name,
+      prisma,
+      logger,
+      metrics: messagingMetrics,
+      // push the committed tracker to live subscribers
+      onHandled: (message) =>
+        broadcastTracker(prisma, { orderId: message.data.orderId })
+    },
+    async (parsedMessage, tx, raw) => {
+      const trigger: TrackerTrigger = {
+        source: raw.properties.appId ?? "unknown",
+        event: parsedMessage.message
+      };
 
-      let parsedMessage: QueueMessage;
-      try {
-        parsedMessage = JSON.parse(msg.content.toString()) as QueueMessage;
-        // logger.info("Message received: ", parsedMessage);
-      } catch (error) {
-        logger.error("Failed to parse message");
-        return;
-      }
+      // a status that overtakes order.created creates the tracker first
+      const updateTracker = async (orderId: string, status: OrderStatus) => {
+        const tracker = await ensureTracker(tx, orderId, trigger);
 
-      if (!parsedMessage) {
-        return;
-      }
+        await updateTrackerStatus(tx, { id: tracker.id }, status, trigger);
+      };
 
       if (parsedMessage.message === "order.created") {
         const { orderId } = parsedMessage.data;
-        // create tracker
-        await prisma.orderTrack.create({
-          data: {
-            order: {
-              connect: {
-                id: orderId
-              }
-            },
-            status: "created" as OrderStatus
-          }
-        });
-      } else if (parsedMessage.message === "inventory.checked") {
-        const { orderId, isAvailable } = parsedMessage.data;
+        // create tracker, unless a status message already did
+        await ensureTracker(tx, orderId, trigger);
+      } else if (parsedMessage.message === "payment.processed") {
+        const { orderId, status } = parsedMessage.data;
 
-        if (isAvailable) {
-          // we dont need to update the tracker if the inventory is available
+        if (status === "failed") {
+          // the saga cancels the order with order.canceled
           return;
         }
 
         // update tracker
-        await prisma.orderTrack.update({
-          where: {
-            orderId
-          },
-          data: {
-            status: "canceled" as OrderStatus
-          }
-        });
-      } else if (parsedMessage.message === "payment.processed") {
-        const { orderId, status } = parsedMessage.data;
+        await updateTracker(orderId, "paid");
+      } else if (parsedMessage.message === "order.canceled") {
+        const { orderId, reason } = parsedMessage.data;
 
-        const newStatus = status === "success" ? "paid" : "canceled";
         // update tracker
+        await updateTracker(orderId, "canceled");
+
+        // notify the customer
+        logger.info(`Order ${orderId} was canceled: ${reason}`);
+      } else if (parsedMessage.message === "payment.refunded") {
+        const { orderId, amount, fullyRefunded, reason } = parsedMessage.data;
+
+        // a partial refund does not change the order
+        if (fullyRefunded) {
+          await updateTracker(orderId, "refunded");
+        }
+
+        // notify the customer
+        logger.info(`Refunded ${amount} for order ${orderId}: ${reason}`);
+      } else if (parsedMessage.message === "order.fulfilled") {
+        const { orderId } = parsedMessage.data;
 
         // update tracker
-        await prisma.orderTrack.update({
-          where: {
-            orderId
-          },
-          data: {
-            status: newStatus as OrderStatus
-          }
-        });
+        await updateTracker(orderId, "fulfilled");
       }
-    },
-    {
-      noAck: true
     }
-  );
-})();
+  )
+);
+
+rabbit.connect();
+
+const queueMonitor = startQueueMonitor(
+  rabbit.getChannel,
+  messagingMetrics,
+  logger,
+  {
+    queues: [
+      topology.queues.tracking.name,
+      `${topology.queues.tracking.name}.dlq`
+    ],
+    interval: config.metrics.queueInterval
+  }
+);
 
-app.use((req, res, next) => {
-  activeConnections.inc(); // Increment on new connection
-  const start = Date.now();
-  res.on("finish", () => {
-    const duration = Date.now() - start; // Calculate duration in milliseconds
+app.use(metrics.httpMetrics);
 
-    httpRequestDurationMs.observe(
-      {
-        method: req.method,
-        route: req.route?.path || req.url,
-        status_code: res.statusCode
-      },
-      duration
-    );
+app.get("/metrics", metrics.metricsHandler);
 
-    // Track total requests
-    httpRequestsTotal.inc({
-      method: req.method,
-      route: req.route?.path || req.url,
-      status_code: res.statusCode
-    });
-
-    activeConnections.dec(); // Decrement when response finishes
-  });
-  next();
+app.get("/", (_req, res) => {
+  res.set("Cache-Control", "no-cache, no-store, must-revalidate");
+  res.set("Pragma", "no-cache");
+  res.set("Expires", "0");
+  res.status(200).json({ msg: "Up" });
 });
 
-app.get("/metrics", async (_req, res) => {
-  res.setHeader("Content-Type", register.contentType);
-  res.send(await register.metrics());
+// the process is up and serving requests
+app.get("/health/live", (_req, res) => {
+  res.set("Cache-Control", "no-cache, no-store, must-revalidate");
+  res.set("Pragma", "no-cache");
+  res.set("Expires", "0");
+  res.status(200).json({ status: "live" });
 });
 
-app.get("/", (_req, res) => {
+// the service can do its work, 503 if a critical dependency is down
+app.get("/health/ready", async (_req, res) => {
   res.set("Cache-Control", "no-cache, no-store, must-revalidate");
   res.set("Pragma", "no-cache");
   res.set("Expires", "0");
-  res.status(200).json({ msg: "Up" });
+
+  const report = await checkHealth(
+    {
+      rabbitmq: {
+        critical: true,
+        check: () => {
+          if (!rabbit.getChannel()) {
+            throw new Error("No channel to RabbitMQ");
+          }
+        }
+      },
+      consumers: {
+        critical: true,
+        check: () => {
+          const { attached, registered } = rabbit.getConsumerCount();
+
+          if (attached < registered) {
+            throw new Error(`${attached} of ${registered} consumers attached`);
+          }
+        }
+      },
+      database: {
+        critical: true,
+        check: () => prisma.$queryRaw`SELECT 1`
+      }
+    },
+    config.health.timeout
+  );
+
+  res.status(report.status === "not_ready" ? 503 : 200).json(report);
 });
 
 app.post("/api/v1/track/create", async (req, res) => {
@@ -321,6 +221,7 @@ app.post("/api/v1/track/create", async (req, res) => {
     res.status(400).json({ error: "orderId is required" });
     return;
   }
+  setLogContext({ orderId });
 
   // find order in db
   try {
@@ -336,13 +237,15 @@ app.post("/api/v1/track/create", async (req, res) => {
     }
 
     // create tracker
-    const tracker = await prisma.orderTrack.create({
-      data: {
-        orderId: order.id,
-        status: "created" as OrderStatus
-      }
+    const tracker = await createTracker(prisma, order.id, {
+      source: req.get("X-Source-Service") ?? "unknown",
+      event: "POST /api/v1/track/create"
     });
 
+    broadcastTracker(prisma, { id: tracker.id }).catch((error) =>
+      logger.error(error.message)
+    );
+
     res.status(201).json({
       trackerId: tracker.id,
       status: tracker.status
@@ -379,30 +282,26 @@ app.patch("/api/v1/track/update/:trackerId", async (req, res) => {
     res
       .status(400)
       .json({ error: "newStatus must be either 'paid' or 'canceled'" });
+    return;
   }
 
   try {
-    // check if tracker exists
-    const tracker = await prisma.orderTrack.findUnique({
-      where: {
-        id: trackerId
-      }
-    });
+    // update tracker
+    const tracker = await prisma.$transaction((tx) =>
+      updateTrackerStatus(tx, { id: trackerId }, newStatus as OrderStatus, {
+        source: req.get("X-Source-Service") ?? "unknown",
+        event: "PATCH /api/v1/track/update"
+      })
+    );
 
     if (!tracker) {
       res.status(404).json({ error: `Tracker ${trackerId} not found` });
       return;
     }
 
-    // update tracker
-    await prisma.orderTrack.update({
-      where: {
-        id: trackerId
-      },
-      data: {
-        status: newStatus as OrderStatus
-      }
-    });
+    broadcastTracker(prisma, { id: tracker.id }).catch((error) =>
+      logger.error(error.message)
+    );
 
     res.status(200).json({ msg: "Tracker updated" });
   } catch (error) {
@@ -416,7 +315,12 @@ app.patch("/api/v1/track/update/:trackerId", async (req, res) => {
   }
 });
 
-app.get("/api/v1/track/:trackerId", async (req, res) => {
+// live updates of every tracker of the calling user, no initial state
+app.get("/api/v1/track/events", authenticate, (req, res) => {
+  streamTrackerUpdates(req, res, `user:${res.locals.userId}`, []);
+});
+
+app.get("/api/v1/track/:trackerId", authenticate, async (req, res) => {
   res.set("Cache-Control", "no-cache, no-store, must-revalidate");
   res.set("Pragma", "no-cache");
   res.set("Expires", "0");
@@ -429,9 +333,13 @@ app.get("/api/v1/track/:trackerId", async (req, res) => {
 
   // find tracker in db
   try {
-    const tracker = await prisma.orderTrack.findUnique({
+    // trackers of other users' orders are reported as not found
+    const tracker = await prisma.orderTrack.findFirst({
       where: {
-        id: trackerId
+        id: trackerId,
+        order: {
+          userId: res.locals.userId
+        }
       }
     });
 
@@ -454,6 +362,116 @@ app.get("/api/v1/track/:trackerId", async (req, res) => {
   }
 });
 
+app.get("/api/v1/track/:trackerId/history", authenticate, async (req, res) => {
+  res.set("Cache-Control", "no-cache, no-store, must-revalidate");
+  res.set("Pragma", "no-cache");
+  res.set("Expires", "0");
+  const { trackerId } = req.params;
+
+  if (!trackerId) {
+    res.status(400).json({ error: "trackerId is required" });
+    return;
+  }
+
+  try {
+    // trackers of other users' orders are reported as not found
+    const tracker = await prisma.orderTrack.findFirst({
+      where: {
+        id: trackerId,
+        order: {
+          userId: res.locals.userId
+        }
+      },
+      include: {
+        history: {
+          orderBy: {
+            createdAt: "asc"
+          }
+        }
+      }
+    });
+
+    if (!tracker) {
+      res.status(404).json({ error: `Tracker ${trackerId} not found` });
+      return;
+    }
+
+    // time spent on each hop, relative to the previous entry
+    const history = tracker.history.map((entry, index) => {
+      const previous = tracker.history[index - 1];
+
+      return {
+        fromStatus: entry.fromStatus,
+        status: entry.status,
+        source: entry.source,
+        event: entry.event,
+        createdAt: entry.createdAt,
+        elapsedMs: previous
+          ? entry.createdAt.getTime() - previous.createdAt.getTime()
+          : 0
+      };
+    });
+
+    res.status(200).json({
+      trackerId: tracker.id,
+      orderId: tracker.orderId,
+      status: tracker.status,
+      history
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(error.message);
+    }
+    res.status(500).json({
+      error: "Internal Server Error while calling get tracker history Endpoint"
+    });
+  }
+});
+
+// live updates of one tracker, starting with its current state
+app.get("/api/v1/track/:trackerId/events", authenticate, async (req, res) => {
+  const { trackerId } = req.params;
+
+  if (!trackerId) {
+    res.status(400).json({ error: "trackerId is required" });
+    return;
+  }
+
+  try {
+    // trackers of other users' orders are reported as not found
+    const tracker = await prisma.orderTrack.findFirst({
+      where: {
+        id: trackerId,
+        order: {
+          userId: res.locals.userId
+        }
+      }
+    });
+
+    if (!tracker) {
+      res.status(404).json({ error: `Tracker ${trackerId} not found` });
+      return;
+    }
+
+    streamTrackerUpdates(req, res, `tracker:${tracker.id}`, [
+      {
+        trackerId: tracker.id,
+        orderId: tracker.orderId,
+        userId: res.locals.userId,
+        status: tracker.status,
+        updatedAt: tracker.updatedAt
+      }
+    ]);
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(error.message);
+    }
+    res.status(500).json({
+      error: "Internal Server Error while calling tracker events Endpoint"
+    });
+  }
+});
+
 app.all("*", (_req, res) => {
   res.set("Cache-Control", "no-cache, no-store, must-revalidate");
   res.set("Pragma", "no-cache");
@@ -463,4 +481,41 @@ app.all("*", (_req, res) => {
 
 app.use(errorHandler);
 
+/**
+ * Stops taking new requests and messages, waits for the ones in flight
+ * up to the shutdown timeout, then closes RabbitMQ and the database.
+ * Resolves to false if anything was cut off or failed to close.
+ */
+export const shutdown = (): Promise<boolean> =>
+  shutdownGracefully(logger, config.shutdown.timeout, {
+    drain: [
+      // open event streams would keep the server from closing
+      {
+        name: "live streams",
+        run: async () => endTrackerStreams()
+      },
+      {
+        name: "HTTP server",
+        run: () =>
+          new Promise<void>((resolve, reject) => {
+            server.close((error) => (error ? reject(error) : resolve()));
+            server.closeIdleConnections();
+          })
+      },
+      { name: "consumers", run: () => rabbit.stopConsuming() }
+    ],
+    close: [
+      // requests still running after the timeout are cut off
+      {
+        name: "HTTP connections",
+        run: async () => server.closeAllConnections()
+      },
+      { name: "metrics", run: async () => metrics.stop() },
+      { name: "queue monitor", run: async () => queueMonitor.stop() },
+      { name: "RabbitMQ", run: () => rabbit.close() },
+      { name: "database", run: () => prisma.$disconnect() },
+      { name: "tracing", run: () => tracing.shutdown() }
+    ]
+  });
+
 export default server;
@@ -11,7 +11,15 @@ const envSchema = Joi.object().keys({
   PORT: Joi.number().port().required().default(4043),
   HOST: Joi.string().required(),
   CORS_ORIGIN: Joi.string().required().default("*"),
-  RABBITMQ_URL: Joi.string().required()
+  RABBITMQ_URL: Joi.string().required(),
+  OTEL_TRACES_EXPORTER: Joi.string()
+    .valid("otlp", "file", "none")
+    .default("none"),
+  OTEL_EXPORTER_OTLP_TRACES_ENDPOINT: Joi.string()
+    .uri()
+    .default("http://localhost:4318/v1/traces"),
+  TRACES_FILE: Joi.string().default("traces.jsonl"),
+  JWT_SECRET: Joi.string().min(32).required()
 });
 
 const { value: validatedEnv, error } = envSchema
@@ -29,23 +37,44 @@ if (error) {
 const config = {
   node_env: validatedEnv.NODE_ENV,
   app: {
+    name: "order-tracking-service",
     port: validatedEnv.PORT,
     host: validatedEnv.HOST
   },
   cors: {
     origin: validatedEnv.CORS_ORIGIN
   },
+  auth: {
+    // tokens are signed with a shared secret, the subject is the user id
+    jwtSecret: validatedEnv.JWT_SECRET,
+    algorithm: "HS256"
+  },
+  live: {
+    heartbeatInterval: 15000
+  },
   rabbitmq: {
     url: validatedEnv.RABBITMQ_URL,
-    queues: {
-      "iventory-queue": "inventory-queue",
-      "payment-queue": "payment-queue",
-      "track-queue": "track-queue"
-    },
-    exchanges: {
-      1: "order-exchange"
-    },
-    retryInterval: 5000
+    prefetch: 10,
+    retryInterval: 5000,
+    maxRetryInterval: 30000
+  },
+  shutdown: {
+    // how long in-flight requests and messages get to finish
+    timeout: 10000
+  },
+  health: {
+    // per dependency check
+    timeout: 2000
+  },
+  metrics: {
+    // how often the depth and consumers of the queues are sampled
+    queueInterval: 15000,
+    cpuSampleInterval: 5000
+  },
+  tracing: {
+    exporter: validatedEnv.OTEL_TRACES_EXPORTER,
+    otlpEndpoint: validatedEnv.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT,
+    file: validatedEnv.TRACES_FILE
   }
 } as const;
 
@@ -0,0 +1,100 @@
+import { EventEmitter } from "events";
+import type { Prisma, PrismaClient } from "@prisma/client";
+import type { Request, Response } from "express";
+import config from "./config";
+
+export type TrackerUpdate = {
+  trackerId: string;
+  orderId: string;
+  userId: string;
+  status: string;
+  updatedAt: Date;
+};
+
+// subscribers listen on `tracker:<trackerId>` or `user:<userId>`
+const updates = new EventEmitter();
+
+// every open stream is a listener
+updates.setMaxListeners(0);
+
+const streams = new Set<Response>();
+
+/**
+ * Loads the committed state of a tracker and pushes it to its subscribers.
+ * Call it after the transaction that changed the tracker.
+ */
+export const broadcastTracker = async (
+  prisma: PrismaClient,
+  where: Prisma.OrderTrackWhereUniqueInput
+): Promise<void> => {
+  const tracker = await prisma.orderTrack.findUnique({
+    where,
+    include: {
+      order: {
+        select: {
+          userId: true
+        }
+      }
+    }
+  });
+
+  if (!tracker) {
+    return;
+  }
+
+  const update: TrackerUpdate = {
+    trackerId: tracker.id,
+    orderId: tracker.orderId,
+    userId: tracker.order.userId,
+    status: tracker.status,
+    updatedAt: tracker.updatedAt
+  };
+
+  updates.emit(`tracker:${update.trackerId}`, update);
+  updates.emit(`user:${update.userId}`, update);
+};
+
+/**
+ * Turns the response into a Server-Sent Events stream of the tracker updates
+ * of `topic`, starting with `initial`. The stream stays open until the client
+ * disconnects.
+ */
+export const streamTrackerUpdates = (
+  req: Request,
+  res: Response,
+  topic: `tracker:${string}` | `user:${string}`,
+  initial: TrackerUpdate[]
+): void => {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive"
+  });
+
+  const send = (update: TrackerUpdate) => {
+    res.write(`event: tracker\ndata: ${JSON.stringify(update)}\n\n`);
+  };
+
+  initial.forEach(send);
+
+  // comments keep proxies from closing an idle stream
+  const heartbeat = setInterval(() => {
+    res.write(": keep-alive\n\n");
+  }, config.live.heartbeatInterval);
+
+  updates.on(topic, send);
+  streams.add(res);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    updates.off(topic, send);
+    streams.delete(res);
+  });
+};
+
+/**
+ * Ends every open stream, clients reconnect to another instance.
+ */
+export const endTrackerStreams = (): void => {
+  streams.forEach((res) => res.end());
+};
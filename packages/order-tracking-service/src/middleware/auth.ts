@@ -0,0 +1,8 @@
+import { createAuthenticate } from "auth";
+import config from "../config";
+
+// the live update streams are opened by EventSource, which can not set headers
+export const authenticate = createAuthenticate({
+  ...config.auth,
+  allowQueryToken: true
+});
@@ -0,0 +1,118 @@
+import type { OrderTrack, Prisma } from "@prisma/client";
+import { type OrderStatus } from "contracts";
+import { setLogContext } from "observability";
+import logger from "./middleware/logger";
+
+/**
+ * What caused a status change, stored with every history entry.
+ */
+export type TrackerTrigger = {
+  // service that caused the transition, e.g. payment-service
+  source: string;
+  // message type or HTTP request, e.g. payment.processed
+  event: string;
+};
+
+/**
+ * Creates the tracker of an order and the first entry of its history.
+ */
+export const createTracker = async (
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  { source, event }: TrackerTrigger
+): Promise<OrderTrack> => {
+  const tracker = await tx.orderTrack.create({
+    data: {
+      order: {
+        connect: {
+          id: orderId
+        }
+      },
+      status: "created" satisfies OrderStatus,
+      history: {
+        create: {
+          status: "created" satisfies OrderStatus,
+          source,
+          event
+        }
+      }
+    }
+  });
+
+  setLogContext({ orderId, trackerId: tracker.id });
+  return tracker;
+};
+
+/**
+ * Returns the tracker of an order and creates it if there is none yet,
+ * so a status message that overtakes its order.created is not lost.
+ * Locks the order row, so concurrent messages create one tracker.
+ */
+export const ensureTracker = async (
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  trigger: TrackerTrigger
+): Promise<OrderTrack> => {
+  await tx.$queryRaw`SELECT id FROM "Order" WHERE id = ${orderId} FOR UPDATE`;
+
+  const tracker = await tx.orderTrack.findUnique({ where: { orderId } });
+
+  if (tracker) {
+    setLogContext({ orderId, trackerId: tracker.id });
+    return tracker;
+  }
+
+  return createTracker(tx, orderId, trigger);
+};
+
+// the order was reverted, events that are still on their way do not reopen it
+const FINAL_STATUSES: OrderStatus[] = ["canceled", "refunded"];
+
+/**
+ * Moves a tracker to `status` and records the transition in its history.
+ * Returns undefined if there is no such tracker.
+ * A tracker that already has the status, or is canceled or refunded,
+ * is returned unchanged.
+ */
+export const updateTrackerStatus = async (
+  tx: Prisma.TransactionClient,
+  where: Prisma.OrderTrackWhereUniqueInput,
+  status: OrderStatus,
+  { source, event }: TrackerTrigger
+): Promise<OrderTrack | undefined> => {
+  const tracker = await tx.orderTrack.findUnique({ where });
+
+  if (!tracker) {
+    return undefined;
+  }
+  setLogContext({ orderId: tracker.orderId, trackerId: tracker.id });
+
+  if (tracker.status === status) {
+    logger.warn(`Tracker ${tracker.id} is already ${status}`);
+    return tracker;
+  }
+
+  if (FINAL_STATUSES.includes(tracker.status as OrderStatus)) {
+    logger.warn(
+      `Tracker ${tracker.id} is ${tracker.status}, ignoring transition to ${status}`
+    );
+    return tracker;
+  }
+
+  return tx.orderTrack.update({
+    where: {
+      id: tracker.id
+    },
+    data: {
+      status,
+      history: {
+        create: {
+          fromStatus: tracker.status,
+          status,
+          source,
+          event
+        }
+      }
+    }
+  });
+};
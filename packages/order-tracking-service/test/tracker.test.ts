@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { PrismaClient } from "@prisma/client";
+import {
+  ensureTracker,
+  updateTrackerStatus,
+  type TrackerTrigger
+} from "../src/tracker";
+
+const skip =
+  !process.env.TEST_DATABASE_URL &&
+  "set TEST_DATABASE_URL to run the database tests";
+
+describe("order trackers", { skip }, () => {
+  let prisma: PrismaClient;
+
+  before(() => {
+    prisma = new PrismaClient();
+  });
+
+  after(async () => {
+    await prisma.$disconnect();
+  });
+
+  const createOrder = async (): Promise<string> => {
+    const user = await prisma.user.create({ data: {} });
+    const order = await prisma.order.create({ data: { userId: user.id } });
+
+    return order.id;
+  };
+
+  const trigger = (event: string): TrackerTrigger => ({
+    source: "test",
+    event
+  });
+
+  it("creates the tracker for a status that overtakes order.created", async () => {
+    const orderId = await createOrder();
+
+    await prisma.$transaction(async (tx) => {
+      const tracker = await ensureTracker(
+        tx,
+        orderId,
+        trigger("payment.processed")
+      );
+      await updateTrackerStatus(
+        tx,
+        { id: tracker.id },
+        "paid",
+        trigger("payment.processed")
+      );
+    });
+
+    // the late order.created keeps the tracker as it is
+    await prisma.$transaction((tx) =>
+      ensureTracker(tx, orderId, trigger("order.created"))
+    );
+
+    const tracker = await prisma.orderTrack.findUniqueOrThrow({
+      where: { orderId },
+      include: { history: { orderBy: { createdAt: "asc" } } }
+    });
+    assert.equal(tracker.status, "paid");
+    assert.deepEqual(
+      tracker.history.map((entry) => entry.status),
+      ["created", "paid"]
+    );
+  });
+
+  it("creates one tracker for concurrent messages of an order", async () => {
+    const orderId = await createOrder();
+
+    const trackers = await Promise.all(
+      ["order.created", "payment.processed"].map((event) =>
+        prisma.$transaction((tx) => ensureTracker(tx, orderId, trigger(event)))
+      )
+    );
+
+    assert.equal(trackers[0]!.id, trackers[1]!.id);
+  });
+});
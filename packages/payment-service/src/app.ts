@@ -1,193 +1,161 @@
-import express, { type Express } from "express";
+import express, { type Express, type Response } from "express";
 import { createServer } from "http";
 import cors from "cors";
 import config from "./config";
+import { authenticate } from "./middleware/auth";
 import { errorHandler } from "./middleware/errorHandler";
 import logger from "./middleware/logger";
+import tracing from "./tracing";
 import axios from "axios";
-import amqplib, { Channel, Connection } from "amqplib";
-import promClient, { Gauge } from "prom-client";
-import os from "os";
+import {
+  createServiceMetrics,
+  checkHealth,
+  CircuitOpenError,
+  createHttpClient,
+  createHttpClientMetrics,
+  createMessagingMetrics,
+  correlationMiddleware,
+  deadlineMiddleware,
+  isClientErrorResponse,
+  isTimeoutError,
+  isUnavailableResponse,
+  setLogContext,
+  startQueueMonitor,
+  shutdownGracefully
+} from "observability";
 
 import { PrismaClient } from "@prisma/client";
+import {
+  consumeMessages,
+  createRabbitConnection,
+  startOutboxRelay,
+  topology,
+  type PaymentProcessedResponse
+} from "contracts";
+import {
+  authorizeOrder,
+  CAPTURED_STATUSES,
+  completeAuthorization,
+  completeCapture,
+  parseRefundRequest,
+  PaymentStateError,
+  publishAuthorization,
+  refundPayment,
+  requestAuthorization,
+  requestCapture,
+  requestCompensation,
+  resumePayment,
+  startAuthorizationSweeper,
+  voidPayment,
+  type PaymentStatus
+} from "./payments";
+import {
+  createSimulatedCardGateway,
+  PaymentProviderTimeoutError,
+  walletProvider,
+  type PaymentProviders
+} from "./providers";
 
 // Create a singleton PrismaClient instance
 const prisma = new PrismaClient();
-export type CheckInventoryResponse = {
-  orderId: string;
-  isAvailable: boolean;
-};
-
-export type CreateTrackerResponse = {
-  trackerId: string;
-  status: OrderStatus;
-};
-
-export type PaymentProcessedResponse = {
-  orderId: string;
-  status: PaymentStatus;
-};
-
-export type MessageTypes =
-  | "order.created"
-  | "inventory.checked"
-  | "payment.processed";
-
-export type OrderCreatedMessage = {
-  orderId: string;
-  productIds: string[];
-};
-export type InventoryCheckedMessage = {
-  orderId: string;
-  isAvailable: boolean;
-};
-
-export type PaymentProcessedMessage = {
-  orderId: string;
-  status: PaymentStatus;
-};
-
-export type QueueMessage =
-  | { message: "order.created"; data: OrderCreatedMessage }
-  | { message: "inventory.checked"; data: InventoryCheckedMessage }
-  | { message: "payment.processed"; data: PaymentProcessedMessage };
 
-export type PaymentStatus = "success" | "failed";
-
-export type OrderStatus = "created" | "paid" | "canceled";
-
-// prometheus metrics
-const register = new promClient.Registry();
-
-register.setDefaultLabels({
-  app: "payment-service"
+// HTTP, CPU and Node.js metrics, served on /metrics
+const metrics = createServiceMetrics({
+  app: config.app.name,
+  cpuSampleInterval: config.metrics.cpuSampleInterval
 });
 
-// Create a histogram metric
-const httpRequestDurationMs = new promClient.Histogram({
-  name: "http_request_duration_ms",
-  help: "Duration of HTTP requests in milliseconds",
-  labelNames: ["method", "route", "status_code"],
-  buckets: [50, 100, 300, 500, 1000, 1500, 2000, 5000] // Define latency buckets in milliseconds
-});
-register.registerMetric(httpRequestDurationMs);
+// publishes, consumes, handler latency and queue depth of the message flow
+const messagingMetrics = createMessagingMetrics(metrics.register);
 
-const httpRequestsTotal = new promClient.Counter({
-  name: "http_requests_total",
-  help: "Total number of HTTP requests",
-  labelNames: ["method", "route", "status_code"]
-});
-register.registerMetric(httpRequestsTotal);
-
-const activeConnections = new promClient.Gauge({
-  name: "active_connections",
-  help: "Number of active connections to the server"
-});
-register.registerMetric(activeConnections);
+axios.defaults.headers.common["Cache-Control"] =
+  "no-cache, no-store, must-revalidate";
+axios.defaults.headers.common["Pragma"] = "no-cache";
+axios.defaults.headers.common["Expires"] = "0";
 
-// Define the Prometheus gauge metric
-const cpuUsageGauge = new Gauge({
-  name: "node_cpu_usage_percentage",
-  help: "CPU usage as a percentage"
+// the v1 flow commits the stock through inventory-service,
+// with a deadline and a circuit breaker
+const inventoryClient = createHttpClient({
+  dependency: "inventory-service",
+  baseURL: config.services.inventory_service.url,
+  ...config.httpClient,
+  metrics: createHttpClientMetrics(metrics.register)
 });
-register.registerMetric(cpuUsageGauge);
-
-promClient.collectDefaultMetrics({ register });
 
-// ====================
-
-// Variables to track previous CPU times
-let previousIdle: number = 0;
-let previousTotal: number = 0;
+/**
+ * Answers a request whose call to another service failed: 503 while the
+ * service's circuit breaker is open or when it answered 503 itself,
+ * 504 when the call ran out of time, 500 otherwise.
+ */
+const respondDependencyFailure = (
+  res: Response,
+  error: unknown,
+  message: string
+): void => {
+  if (error instanceof CircuitOpenError) {
+    res.set("Retry-After", String(Math.ceil(error.retryAfter / 1000)));
+    res.status(503).json({ error: error.message });
+    return;
+  }
 
-// Function to calculate CPU usage percentage over an interval
-function getCpuUsagePercentage(): string {
-  const cpus = os.cpus();
-  let totalIdle = 0;
-  let totalTick = 0;
+  // pass the unavailability of a service further down on to the caller
+  if (isUnavailableResponse(error)) {
+    const retryAfter: unknown = error.response.headers["retry-after"];
 
-  cpus.forEach((core) => {
-    for (const type in core.times) {
-      totalTick += core.times[type as keyof typeof core.times];
+    if (typeof retryAfter === "string") {
+      res.set("Retry-After", retryAfter);
     }
-    totalIdle += core.times.idle;
-  });
-
-  // Calculate deltas
-  const idleDelta = totalIdle - previousIdle;
-  const totalDelta = totalTick - previousTotal;
-
-  // Update previous values
-  previousIdle = totalIdle;
-  previousTotal = totalTick;
-
-  // Avoid division by zero
-  if (totalDelta === 0) {
-    return "0.00";
+    res.status(503).json({ error: message });
+    return;
   }
 
-  const usagePercentage = ((totalDelta - idleDelta) / totalDelta) * 100;
-  return usagePercentage.toFixed(2);
-}
-
-// Periodically update the Prometheus gauge metric
-setInterval((): void => {
-  const usage = getCpuUsagePercentage();
-  cpuUsageGauge.set(Number(usage));
-}, 5000);
-
-axios.defaults.validateStatus = (status) => {
-  return status < 500;
+  if (error instanceof Error) {
+    logger.error(error.message);
+  }
+  res.status(isTimeoutError(error) ? 504 : 500).json({ error: message });
 };
 
-axios.defaults.headers.common["Cache-Control"] =
-  "no-cache, no-store, must-revalidate";
-axios.defaults.headers.common["Pragma"] = "no-cache";
-axios.defaults.headers.common["Expires"] = "0";
-
-let channel: Channel;
-
-const connectRabbit = async () => {
-  logger.info("Trying to connect to RabbitMQ...");
-
-  let conn: Connection;
+// the provider that charges an order is picked by its payment method
+const providers: PaymentProviders = {
+  wallet: walletProvider,
+  card: createSimulatedCardGateway(config.cardGateway)
+};
 
+/**
+ * Gives back what a v1 order that can not be captured took: its
+ * authorization is voided and its committed stock is put back.
+ * Best effort, a void that fails is asked again by the sweeper.
+ */
+const releaseOrder = async (orderId: string): Promise<void> => {
   try {
-    conn = await amqplib.connect(config.rabbitmq.url);
-  } catch (err) {
-    logger.error("Unable to connect to RabbitMQ: ", err);
-    setTimeout(
-      async () => await connectRabbit(),
-      config.rabbitmq.retryInterval
+    await voidPayment(
+      prisma,
+      orderId,
+      "payment could not be captured",
+      providers
+    );
+  } catch (error) {
+    logger.error(
+      `Could not void the payment of order ${orderId}: ${error instanceof Error ? error.message : error}`
     );
-    return;
   }
 
-  logger.info("Successfully connected to RabbitMQ");
-
-  conn.on("close", async function (err: Error) {
-    console.error("Rabbit connection closed with error: ", err);
-    setTimeout(
-      async () => await connectRabbit(),
-      config.rabbitmq.retryInterval
+  try {
+    await inventoryClient.patch(
+      `${config.services.inventory_service.endpoint.v1}/release/${orderId}`,
+      { restock: true },
+      { idempotent: true }
+    );
+  } catch (error) {
+    logger.error(
+      `Could not restock the products of order ${orderId}: ${error instanceof Error ? error.message : error}`
     );
-  });
-
-  channel = await conn.createChannel();
-
-  await channel.assertExchange(config.rabbitmq.exchanges[1], "fanout", {
-    durable: false
-  });
-
-  const queues = Object.values(config.rabbitmq.queues);
-
-  for (const queue of queues) {
-    const q = await channel.assertQueue(queue);
-
-    await channel.bindQueue(q.queue, config.rabbitmq.exchanges[1], "");
   }
 };
 
+// reconnects with backoff and re-attaches the consumers after every reconnect
+const rabbit = createRabbitConnection(config.rabbitmq, logger);
+
 const app: Express = express();
 const server = createServer(app);
 
@@ -199,184 +167,147 @@ app.use(express.urlencoded({ extended: true }));
 
 app.use(cors({ origin: String(config.cors.origin).split("|") ?? "*" }));
 
-(async () => {
-  await connectRabbit();
+// request logs carry the correlation id and, once known, the orderId
+app.use(correlationMiddleware);
 
-  // @ts-ignore
-  if (!channel || !channel.connection) {
-    return;
-  }
+// calls to other services give up when the caller does
+app.use(deadlineMiddleware);
 
-  await channel.consume(
-    config.rabbitmq.queues["payment-queue"],
-    async (msg) => {
-      if (!msg) {
-        return;
-      }
-      const m = msg.content.toString();
+app.param("orderId", (_req, _res, next, orderId: string) => {
+  setLogContext({ orderId });
+  next();
+});
 
-      if (!m) {
-        return;
-      }
+void rabbit.addConsumer((channel) =>
+  consumeMessages(
+    channel,
+    {
+      queue: topology.queues.payment.name,
+      prisma,
+      logger,
+      metrics: messagingMetrics,
+      transaction: config.transaction,
+      // the provider is asked for the authorization, capture, void or refund
+      // once the claim is committed, outside of the inbox transaction; if
+      // that fails or is cut off the sweeper asks again
+      onHandled: async (parsedMessage) => {
+        if (
+          parsedMessage.message === "inventory.checked" &&
+          parsedMessage.data.isAvailable
+        ) {
+          await completeAuthorization(
+            prisma,
+            parsedMessage.data.orderId,
+            providers,
+            { publish: true }
+          );
+        }
 
-      let parsedMessage: QueueMessage;
-      try {
-        parsedMessage = JSON.parse(msg.content.toString()) as QueueMessage;
-      } catch (error) {
-        logger.error("Failed to parse message");
-        return;
+        if (parsedMessage.message === "order.fulfilled") {
+          await completeCapture(prisma, parsedMessage.data.orderId, providers);
+        }
+
+        if (parsedMessage.message === "order.canceled") {
+          await resumePayment(prisma, parsedMessage.data.orderId, providers);
+        }
       }
+    },
+    async (parsedMessage, tx) => {
+      // ========================================
+      // order.canceled
+      // ========================================
+      if (parsedMessage.message === "order.canceled") {
+        const { orderId, reason, compensate } = parsedMessage.data;
+
+        // void the authorization, even one the saga has not seen yet, or
+        // refund the amount if it was captured; the saga already reverts
+        // the order, so there is no payment event
+        const payment = await requestCompensation(
+          tx,
+          orderId,
+          compensate.refundAmount,
+          `order canceled: ${reason}`
+        );
+
+        if (!payment) {
+          throw new Error(`Order ${orderId} not found`);
+        }
 
-      if (!parsedMessage) {
         return;
       }
 
-      if (parsedMessage.message === "inventory.checked") {
-        const { orderId, isAvailable } = parsedMessage.data;
+      // ========================================
+      // order.fulfilled
+      // ========================================
+      if (parsedMessage.message === "order.fulfilled") {
+        const { orderId } = parsedMessage.data;
 
-        if (!isAvailable) {
-          // we dont need to process the order if its not available
-          // the tracker we be updated by the inventory.checked event
+        // from now on the held total does not expire, onHandled takes it
+        const payment = await requestCapture(tx, orderId);
 
-          return;
+        if (!payment) {
+          throw new Error(`Order ${orderId} has no payment to capture`);
         }
 
-        try {
-          const order = await prisma.order.findUnique({
-            where: {
-              id: orderId
-            },
-            include: {
-              user: {
-                select: {
-                  balance: true
-                }
-              },
-              products: {
-                select: {
-                  price: true
-                }
-              }
-            }
-          });
-
-          if (!order) {
-            // send payment failed message
-            channel.publish(
-              config.rabbitmq.exchanges[1],
-              "",
-              Buffer.from(
-                JSON.stringify({
-                  message: "payment.processed",
-                  data: {
-                    orderId,
-                    status: "failed"
-                  }
-                } as QueueMessage)
-              )
-            );
-
-            return;
-          }
+        return;
+      }
 
-          const totalAmount = order.products
-            .map((product) => product.price)
-            .reduce((acc, price) => acc + price, 0);
-
-          if (order.user.balance < totalAmount) {
-            // send payment failed message
-            channel.publish(
-              config.rabbitmq.exchanges[1],
-              "",
-              Buffer.from(
-                JSON.stringify({
-                  message: "payment.processed",
-                  data: {
-                    orderId,
-                    status: "failed"
-                  }
-                } as QueueMessage)
-              )
-            );
-
-            return;
-          }
+      // ========================================
+      // inventory.checked
+      // ========================================
+      if (parsedMessage.message !== "inventory.checked") {
+        return;
+      }
 
-          // update user balance
-          await prisma.user.update({
-            where: {
-              id: order.userId
-            },
-            data: {
-              balance: {
-                decrement: totalAmount
-              }
-            }
-          });
-
-          // send payment success message
-
-          channel.publish(
-            config.rabbitmq.exchanges[1],
-            "",
-            Buffer.from(
-              JSON.stringify({
-                message: "payment.processed",
-                data: {
-                  orderId,
-                  status: "success"
-                }
-              } as QueueMessage)
-            )
-          );
-        } catch (error) {
-          if (error instanceof Error) {
-            logger.error(error);
-          }
+      const { orderId, isAvailable } = parsedMessage.data;
+
+      if (!isAvailable) {
+        // we dont need to process the order if its not available
+        // the saga cancels the order
 
-          return;
-        }
-      } else {
         return;
       }
-    },
-    {
-      noAck: true
-    }
-  );
-})();
 
-app.use((req, res, next) => {
-  activeConnections.inc(); // Increment on new connection
-  const start = Date.now();
-  res.on("finish", () => {
-    const duration = Date.now() - start; // Calculate duration in milliseconds
+      // record the authorization of the order total as pending,
+      // onHandled asks the provider and publishes the outcome
+      const payment = await requestAuthorization(tx, orderId, providers);
 
-    httpRequestDurationMs.observe(
-      {
-        method: req.method,
-        route: req.route?.path || req.url,
-        status_code: res.statusCode
-      },
-      duration
-    );
+      // send payment message for an order that is not authorized again,
+      // e.g. a missing or canceled one, the saga cancels the order if it failed
+      if (payment?.status !== ("pending" satisfies PaymentStatus)) {
+        await publishAuthorization(tx, orderId, payment);
+      }
+    }
+  )
+);
+
+rabbit.connect();
+
+const queueMonitor = startQueueMonitor(
+  rabbit.getChannel,
+  messagingMetrics,
+  logger,
+  {
+    queues: [
+      topology.queues.payment.name,
+      `${topology.queues.payment.name}.dlq`
+    ],
+    interval: config.metrics.queueInterval
+  }
+);
 
-    // Track total requests
-    httpRequestsTotal.inc({
-      method: req.method,
-      route: req.route?.path || req.url,
-      status_code: res.statusCode
-    });
+// voids authorizations that were not captured in time
+const sweeper = startAuthorizationSweeper(prisma, providers);
 
-    activeConnections.dec(); // Decrement when response finishes
-  });
-  next();
+const relay = startOutboxRelay(prisma, rabbit.getChannel, logger, {
+  source: config.app.name,
+  ...config.outbox,
+  metrics: messagingMetrics
 });
 
-app.get("/metrics", async (_req, res) => {
-  res.setHeader("Content-Type", register.contentType);
-  res.send(await register.metrics());
-});
+app.use(metrics.httpMetrics);
+
+app.get("/metrics", metrics.metricsHandler);
 
 app.get("/", (_req, res) => {
   res.set("Cache-Control", "no-cache, no-store, must-revalidate");
@@ -385,6 +316,59 @@ app.get("/", (_req, res) => {
   res.status(200).json({ msg: "Up" });
 });
 
+// the process is up and serving requests
+app.get("/health/live", (_req, res) => {
+  res.set("Cache-Control", "no-cache, no-store, must-revalidate");
+  res.set("Pragma", "no-cache");
+  res.set("Expires", "0");
+  res.status(200).json({ status: "live" });
+});
+
+// the service can do its work, 503 if a critical dependency is down
+app.get("/health/ready", async (_req, res) => {
+  res.set("Cache-Control", "no-cache, no-store, must-revalidate");
+  res.set("Pragma", "no-cache");
+  res.set("Expires", "0");
+
+  const report = await checkHealth(
+    {
+      rabbitmq: {
+        critical: true,
+        check: () => {
+          if (!rabbit.getChannel()) {
+            throw new Error("No channel to RabbitMQ");
+          }
+        }
+      },
+      consumers: {
+        critical: true,
+        check: () => {
+          const { attached, registered } = rabbit.getConsumerCount();
+
+          if (attached < registered) {
+            throw new Error(`${attached} of ${registered} consumers attached`);
+          }
+        }
+      },
+      database: {
+        critical: true,
+        check: () => prisma.$queryRaw`SELECT 1`
+      },
+      // used by the v1 flow only
+      inventory_service: {
+        critical: false,
+        check: () =>
+          axios.get(`${config.services.inventory_service.url}/health/live`, {
+            timeout: config.health.timeout
+          })
+      }
+    },
+    config.health.timeout
+  );
+
+  res.status(report.status === "not_ready" ? 503 : 200).json(report);
+});
+
 app.post("/api/v1/payment", async (req, res) => {
   res.set("Cache-Control", "no-cache, no-store, must-revalidate");
   res.set("Pragma", "no-cache");
@@ -398,27 +382,43 @@ app.post("/api/v1/payment", async (req, res) => {
     } as PaymentProcessedResponse);
     return;
   }
+  setLogContext({ orderId });
   try {
-    // calculate total amount
-    const order = await prisma.order.findUnique({
+    // a repeated request answers with the outcome of the first one
+    const existing = await prisma.payment.findUnique({
       where: {
-        id: orderId
-      },
-      include: {
-        user: {
-          select: {
-            balance: true
-          }
-        },
-        products: {
-          select: {
-            price: true
-          }
-        }
+        orderId
       }
     });
 
-    if (!order) {
+    if (existing) {
+      // the first request is still between authorization and capture
+      if (
+        existing.status === ("pending" satisfies PaymentStatus) ||
+        existing.status === ("authorized" satisfies PaymentStatus)
+      ) {
+        res.status(409).json({
+          error: `Payment of order ${orderId} is still in progress`
+        });
+        return;
+      }
+
+      // a claimed capture is finished by the sweeper if it failed
+      const succeeded =
+        existing.status === ("capturing" satisfies PaymentStatus) ||
+        CAPTURED_STATUSES.includes(existing.status as PaymentStatus);
+
+      res.status(succeeded ? 200 : 400).json({
+        orderId: orderId,
+        status: succeeded ? "success" : "failed"
+      } as PaymentProcessedResponse);
+      return;
+    }
+
+    // hold the total first, the provider may decline it
+    const payment = await authorizeOrder(prisma, orderId, providers);
+
+    if (!payment) {
       res.status(404).json({
         orderId: orderId,
         status: "failed"
@@ -426,11 +426,7 @@ app.post("/api/v1/payment", async (req, res) => {
       return;
     }
 
-    const totalAmount = order.products
-      .map((product) => product.price)
-      .reduce((acc, price) => acc + price, 0);
-
-    if (order.user.balance < totalAmount) {
+    if (payment.status !== ("authorized" satisfies PaymentStatus)) {
       res.status(400).json({
         orderId: orderId,
         status: "failed"
@@ -438,52 +434,211 @@ app.post("/api/v1/payment", async (req, res) => {
       return;
     }
 
-    // update stock
+    // update stock, the authorization is voided if that fails
     try {
-      const inventoryResponse = await axios.patch(
-        `${config.services.inventory_service.url}${config.services.inventory_service.endpoint.v1}/update/${orderId}`
+      await inventoryClient.patch(
+        `${config.services.inventory_service.endpoint.v1}/update/${orderId}`
+      );
+    } catch (error) {
+      await voidPayment(
+        prisma,
+        orderId,
+        "stock could not be committed",
+        providers
       );
 
-      if (inventoryResponse.status !== 200) {
+      if (isClientErrorResponse(error)) {
         res.status(400).json({
           orderId: orderId,
           status: "failed"
         } as PaymentProcessedResponse);
         return;
       }
+      respondDependencyFailure(
+        res,
+        error,
+        "Internal Server Error while calling inventory Endpoint"
+      );
+      return;
+    }
+
+    // the v1 flow has no fulfilment, the total is taken right away;
+    // the authorization may have expired since it was booked
+    try {
+      await prisma.$transaction((tx) => requestCapture(tx, orderId));
     } catch (error) {
       if (error instanceof Error) {
-        logger.error(error.message);
+        logger.error(
+          `Could not capture the payment of order ${orderId}: ${error.message}`
+        );
       }
-      res.status(500).json({
-        error: "Internal Server Error while calling inventory Endpoint"
-      });
+      await releaseOrder(orderId);
+
+      res.status(400).json({
+        orderId: orderId,
+        status: "failed"
+      } as PaymentProcessedResponse);
+      return;
+    }
+
+    // the capture is claimed, the money is taken even if this attempt fails
+    try {
+      await completeCapture(prisma, orderId, providers);
+    } catch (error) {
+      logger.warn(
+        `Capture of order ${orderId} failed, the sweeper asks again: ${error instanceof Error ? error.message : error}`
+      );
+    }
+
+    // payment processing
+    res.status(200).json({
+      orderId: orderId,
+      status: "success"
+    } as PaymentProcessedResponse);
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(error.message);
+    }
+    res.status(500).json({
+      error: "Internal Server Error while processing payment"
+    });
+  }
+});
+
+app.get(
+  "/api/v1/payment/users/:userId/balance",
+  authenticate,
+  async (req, res) => {
+    res.set("Cache-Control", "no-cache, no-store, must-revalidate");
+    res.set("Pragma", "no-cache");
+    res.set("Expires", "0");
+    const { userId } = req.params;
+
+    // balances of other users are reported as not found
+    if (userId !== res.locals.userId) {
+      res.status(404).json({ error: `User ${userId} not found` });
       return;
     }
 
-    // update user balance
-    await prisma.user.update({
+    try {
+      // both are kept in sync with the ledger on every posting
+      const user = await prisma.user.findUnique({
+        where: {
+          id: userId
+        },
+        select: {
+          balance: true,
+          heldBalance: true
+        }
+      });
+
+      if (!user) {
+        res.status(404).json({ error: `User ${userId} not found` });
+        return;
+      }
+
+      res.status(200).json({
+        userId,
+        available: user.balance,
+        held: user.heldBalance
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        logger.error(error.message);
+      }
+      res
+        .status(500)
+        .json({ error: "Internal Server Error while fetching balance" });
+    }
+  }
+);
+
+app.get("/api/v1/payment/:orderId", authenticate, async (req, res) => {
+  res.set("Cache-Control", "no-cache, no-store, must-revalidate");
+  res.set("Pragma", "no-cache");
+  res.set("Expires", "0");
+  const { orderId } = req.params;
+
+  try {
+    // the charge and its refunds with their ledger entries,
+    // payments of other users are reported as not found
+    const payment = await prisma.payment.findFirst({
       where: {
-        id: order.userId
+        orderId,
+        userId: res.locals.userId
       },
-      data: {
-        balance: {
-          decrement: totalAmount
+      include: {
+        entries: {
+          orderBy: {
+            createdAt: "asc"
+          }
         }
       }
     });
 
-    // payment processing
+    if (!payment) {
+      res.status(404).json({ error: `Payment for order ${orderId} not found` });
+      return;
+    }
+
+    res.status(200).json({ payment });
+  } catch (error) {
+    if (error instanceof Error) {
+      logger.error(error.message);
+    }
+    res
+      .status(500)
+      .json({ error: "Internal Server Error while fetching payment" });
+  }
+});
+
+app.post("/api/v1/payment/:orderId/refund", authenticate, async (req, res) => {
+  res.set("Cache-Control", "no-cache, no-store, must-revalidate");
+  res.set("Pragma", "no-cache");
+  res.set("Expires", "0");
+  const { orderId } = req.params;
+  const { request, error } = parseRefundRequest(req.body);
+
+  // validate body
+  if (error !== undefined) {
+    res.status(400).json({ error });
+    return;
+  }
+
+  // credit the user and write payment.refunded in one transaction once the
+  // provider gave the money back, the outbox relay publishes the event
+  try {
+    const refund = await refundPayment(
+      prisma,
+      orderId,
+      res.locals.userId,
+      request,
+      providers
+    );
+
+    if (!refund) {
+      res.status(404).json({ error: `Payment for order ${orderId} not found` });
+      return;
+    }
+
     res.status(200).json({
-      orderId: order.id,
-      status: "success"
-    } as PaymentProcessedResponse);
+      refunded: refund.refunded,
+      payment: refund.payment
+    });
   } catch (error) {
+    if (error instanceof PaymentStateError) {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+    if (error instanceof PaymentProviderTimeoutError) {
+      res.status(504).json({ error: error.message });
+      return;
+    }
     if (error instanceof Error) {
       logger.error(error.message);
     }
     res.status(500).json({
-      error: "Internal Server Error while processing payment"
+      error: "Internal Server Error while refunding payment"
     });
   }
 });
@@ -497,4 +652,41 @@ app.all("*", (_req, res) => {
 
 app.use(errorHandler);
 
+/**
+ * Stops taking new requests and messages, waits for the ones in flight
+ * up to the shutdown timeout, then closes RabbitMQ and the database.
+ * Resolves to false if anything was cut off or failed to close.
+ */
+export const shutdown = (): Promise<boolean> =>
+  shutdownGracefully(logger, config.shutdown.timeout, {
+    drain: [
+      {
+        name: "HTTP server",
+        run: () =>
+          new Promise<void>((resolve, reject) => {
+            server.close((error) => (error ? reject(error) : resolve()));
+            server.closeIdleConnections();
+          })
+      },
+      { name: "consumers", run: () => rabbit.stopConsuming() }
+    ],
+    close: [
+      // requests still running after the timeout are cut off
+      {
+        name: "HTTP connections",
+        run: async () => server.closeAllConnections()
+      },
+      {
+        name: "authorization sweeper",
+        run: async () => clearInterval(sweeper)
+      },
+      { name: "outbox relay", run: () => relay.stop() },
+      { name: "metrics", run: async () => metrics.stop() },
+      { name: "queue monitor", run: async () => queueMonitor.stop() },
+      { name: "RabbitMQ", run: () => rabbit.close() },
+      { name: "database", run: () => prisma.$disconnect() },
+      { name: "tracing", run: () => tracing.shutdown() }
+    ]
+  });
+
 export default server;
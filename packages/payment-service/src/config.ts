@@ -11,7 +11,24 @@ const envSchema = Joi.object().keys({
   PORT: Joi.number().port().required().default(4044),
   HOST: Joi.string().required(),
   CORS_ORIGIN: Joi.string().required().default("*"),
-  RABBITMQ_URL: Joi.string().required()
+  RABBITMQ_URL: Joi.string().required(),
+  OTEL_TRACES_EXPORTER: Joi.string()
+    .valid("otlp", "file", "none")
+    .default("none"),
+  OTEL_EXPORTER_OTLP_TRACES_ENDPOINT: Joi.string()
+    .uri()
+    .default("http://localhost:4318/v1/traces"),
+  TRACES_FILE: Joi.string().default("traces.jsonl"),
+  JWT_SECRET: Joi.string().min(32).required(),
+  CARD_GATEWAY_MIN_LATENCY_MS: Joi.number().integer().min(0).default(100),
+  CARD_GATEWAY_MAX_LATENCY_MS: Joi.number()
+    .integer()
+    .min(Joi.ref("CARD_GATEWAY_MIN_LATENCY_MS"))
+    .default(500),
+  CARD_GATEWAY_DECLINE_RATE: Joi.number().min(0).max(1).default(0.05),
+  CARD_GATEWAY_TIMEOUT_RATE: Joi.number().min(0).max(1).default(0),
+  // a capture attempt is claimed for a minute, an answer has to arrive before
+  CARD_GATEWAY_TIMEOUT_MS: Joi.number().integer().min(1).max(8000).default(3000)
 });
 
 const { value: validatedEnv, error } = envSchema
@@ -29,23 +46,88 @@ if (error) {
 const config = {
   node_env: validatedEnv.NODE_ENV,
   app: {
+    name: "payment-service",
     port: validatedEnv.PORT,
     host: validatedEnv.HOST
   },
   cors: {
     origin: validatedEnv.CORS_ORIGIN
   },
+  auth: {
+    // tokens are signed with a shared secret, the subject is the user id
+    jwtSecret: validatedEnv.JWT_SECRET,
+    algorithm: "HS256"
+  },
   rabbitmq: {
     url: validatedEnv.RABBITMQ_URL,
-    queues: {
-      "iventory-queue": "inventory-queue",
-      "payment-queue": "payment-queue",
-      "track-queue": "track-queue"
-    },
-    exchanges: {
-      1: "order-exchange"
-    },
-    retryInterval: 5000
+    // a message in flight may hold a pooled connection while it waits for
+    // the gateway, the default pool of a small machine has 5
+    prefetch: 5,
+    retryInterval: 5000,
+    maxRetryInterval: 30000
+  },
+  shutdown: {
+    // how long in-flight requests and messages get to finish
+    timeout: 10000
+  },
+  health: {
+    // per dependency check
+    timeout: 2000
+  },
+  metrics: {
+    // how often the depth and consumers of the queues are sampled
+    queueInterval: 15000,
+    cpuSampleInterval: 5000
+  },
+  tracing: {
+    exporter: validatedEnv.OTEL_TRACES_EXPORTER,
+    otlpEndpoint: validatedEnv.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT,
+    file: validatedEnv.TRACES_FILE
+  },
+  httpClient: {
+    // deadline of a call to another service, including retries
+    timeout: 5000,
+    retries: 2,
+    retryInterval: 100,
+    // consecutive failures that open the circuit breaker of a service
+    failureThreshold: 5,
+    // how long an open breaker fails calls fast before it tries again
+    resetTimeout: 10000
+  },
+  // simulated card gateway, used by orders paid by card
+  cardGateway: {
+    minLatency: validatedEnv.CARD_GATEWAY_MIN_LATENCY_MS,
+    maxLatency: validatedEnv.CARD_GATEWAY_MAX_LATENCY_MS,
+    declineRate: validatedEnv.CARD_GATEWAY_DECLINE_RATE,
+    timeoutRate: validatedEnv.CARD_GATEWAY_TIMEOUT_RATE,
+    timeout: validatedEnv.CARD_GATEWAY_TIMEOUT_MS
+  },
+  // transactions of the consumer's inbox, the card gateway is never asked
+  // inside of one
+  transaction: {
+    timeout: 10000,
+    maxWait: 5000
+  },
+  authorizations: {
+    // how long an authorization holds the money before it is voided
+    ttl: 7 * 24 * 60 * 60 * 1000,
+    // a pending authorization older than this was cut off and is asked again
+    pendingTimeout: 60 * 1000,
+    sweepInterval: 60 * 1000,
+    // expired authorizations voided per sweep
+    batchSize: 50
+  },
+  captures: {
+    // how long an attempt is claimed, and the delay before a failed one is
+    // asked again, doubled after every further failure
+    retryInterval: 60 * 1000,
+    maxRetryInterval: 60 * 60 * 1000
+  },
+  outbox: {
+    pollInterval: 1000,
+    batchSize: 50,
+    maxAttempts: 10,
+    publishTimeout: 5000
   },
   services: {
     inventory_service: {
@@ -1,4 +1,6 @@
-import server from "./app";
+// has to be loaded before anything it instruments
+import "./tracing";
+import server, { shutdown } from "./app";
 import config from "./config";
 import logger from "./middleware/logger";
 
@@ -8,12 +10,14 @@ server.listen(port, config.app.host, () => {
   logger.log("info", `Server is running on Port: ${port}`);
 });
 
-process.on("SIGTERM", () => {
-  logger.info("SIGTERM signal received.");
-  logger.info("Closing server.");
-  server.close((err: unknown) => {
-    logger.info("Server closed.");
-    // eslint-disable-next-line no-process-exit
-    process.exit(err ? 1 : 0);
+const onSignal = (signal: NodeJS.Signals) => {
+  logger.info(`${signal} signal received.`);
+  logger.info("Shutting down.");
+  shutdown().then((clean) => {
+    logger.info("Shutdown complete.");
+    process.exit(clean ? 0 : 1);
   });
-});
+};
+
+process.once("SIGTERM", onSignal);
+process.once("SIGINT", onSignal);
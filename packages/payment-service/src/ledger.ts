@@ -0,0 +1,208 @@
+import { randomUUID } from "crypto";
+import type { Prisma } from "@prisma/client";
+
+export type LedgerEntryKind =
+  | "authorization"
+  | "capture"
+  | "void"
+  | "refund"
+  | "adjustment";
+
+// money the shop received for orders
+export const REVENUE_ACCOUNT = "revenue";
+// the other side of manual corrections and of balances from before the ledger
+export const ADJUSTMENTS_ACCOUNT = "adjustments";
+// money that went through the card gateway, authorizations debit it and
+// voids and refunds credit it
+export const CARD_GATEWAY_ACCOUNT = "card_gateway";
+// authorized at the card gateway but not captured yet
+export const CARD_GATEWAY_HOLDS_ACCOUNT = "card_gateway_holds";
+
+const USER_ACCOUNT_PREFIX = "user:";
+const HOLD_ACCOUNT_PREFIX = "hold:";
+
+// the available balance of the user
+export const userAccount = (userId: string): string =>
+  `${USER_ACCOUNT_PREFIX}${userId}`;
+
+// authorized from the user's balance but not captured yet
+export const holdAccount = (userId: string): string =>
+  `${HOLD_ACCOUNT_PREFIX}${userId}`;
+
+/**
+ * Money is stored as floats, so amounts are rounded to whole cents
+ * before they are stored or compared, e.g. 0.1 + 0.2 is 30 cents.
+ */
+export const toCents = (amount: number): number => Math.round(amount * 100);
+
+export const roundMoney = (amount: number): number => toCents(amount) / 100;
+
+export type Posting = {
+  account: string;
+  amount: number;
+};
+
+/**
+ * Locks the user row until the transaction ends,
+ * so postings to the same account run one after another.
+ */
+const lockUser = async (
+  tx: Prisma.TransactionClient,
+  userId: string
+): Promise<void> => {
+  await tx.$queryRaw`SELECT id FROM "User" WHERE id = ${userId} FOR UPDATE`;
+};
+
+const insertEntries = async (
+  tx: Prisma.TransactionClient,
+  kind: LedgerEntryKind,
+  postings: Posting[],
+  paymentId: string | null,
+  description: string | null
+): Promise<void> => {
+  const transactionId = randomUUID();
+
+  await tx.ledgerEntry.createMany({
+    data: postings.map(({ account, amount }) => ({
+      transactionId,
+      account,
+      amount,
+      kind,
+      paymentId,
+      description
+    }))
+  });
+};
+
+/**
+ * Sum of the entries of an account.
+ */
+const getLedgerBalance = async (
+  tx: Prisma.TransactionClient,
+  account: string
+): Promise<{ balance: number; entries: number }> => {
+  const { _sum, _count } = await tx.ledgerEntry.aggregate({
+    where: {
+      account
+    },
+    _sum: {
+      amount: true
+    },
+    _count: true
+  });
+
+  return { balance: roundMoney(_sum.amount ?? 0), entries: _count };
+};
+
+/**
+ * The balance of the user according to the ledger. The first time the account
+ * is used, the balance the user had before the ledger is booked as an
+ * adjustment. Call it with the user locked.
+ */
+const openAccount = async (
+  tx: Prisma.TransactionClient,
+  userId: string
+): Promise<number> => {
+  const { balance, entries } = await getLedgerBalance(tx, userAccount(userId));
+
+  if (entries > 0) {
+    return balance;
+  }
+
+  const user = await tx.user.findUniqueOrThrow({
+    where: {
+      id: userId
+    }
+  });
+
+  if (user.balance !== 0) {
+    await insertEntries(
+      tx,
+      "adjustment",
+      [
+        { account: userAccount(userId), amount: user.balance },
+        { account: ADJUSTMENTS_ACCOUNT, amount: -user.balance }
+      ],
+      null,
+      "opening balance"
+    );
+  }
+
+  return user.balance;
+};
+
+/**
+ * Derives the stored balance and held balance of the user from the ledger.
+ */
+const syncBalance = async (
+  tx: Prisma.TransactionClient,
+  userId: string
+): Promise<void> => {
+  const { balance } = await getLedgerBalance(tx, userAccount(userId));
+  const { balance: heldBalance } = await getLedgerBalance(
+    tx,
+    holdAccount(userId)
+  );
+
+  await tx.user.update({
+    where: {
+      id: userId
+    },
+    data: {
+      balance,
+      heldBalance
+    }
+  });
+};
+
+/**
+ * Locks the user and returns the balance of their wallet,
+ * the lock is held until the transaction ends.
+ */
+export const getWalletBalance = async (
+  tx: Prisma.TransactionClient,
+  userId: string
+): Promise<number> => {
+  await lockUser(tx, userId);
+  return openAccount(tx, userId);
+};
+
+/**
+ * Records one ledger transaction. Throws if its entries do not sum up to zero.
+ * The stored balances of every user whose accounts it touches are updated.
+ */
+export const postTransaction = async (
+  tx: Prisma.TransactionClient,
+  kind: LedgerEntryKind,
+  postings: Posting[],
+  {
+    paymentId = null,
+    description = null
+  }: { paymentId?: string | null; description?: string | null } = {}
+): Promise<void> => {
+  const sum = postings.reduce((acc, posting) => acc + posting.amount, 0);
+
+  if (toCents(sum) !== 0) {
+    throw new Error(`Ledger transaction does not balance, off by ${sum}`);
+  }
+
+  const userIds = [
+    ...new Set(
+      postings.flatMap(({ account }) =>
+        [USER_ACCOUNT_PREFIX, HOLD_ACCOUNT_PREFIX]
+          .filter((prefix) => account.startsWith(prefix))
+          .map((prefix) => account.slice(prefix.length))
+      )
+    )
+  ];
+
+  for (const userId of userIds) {
+    await getWalletBalance(tx, userId);
+  }
+
+  await insertEntries(tx, kind, postings, paymentId, description);
+
+  for (const userId of userIds) {
+    await syncBalance(tx, userId);
+  }
+};
@@ -0,0 +1,4 @@
+import { createAuthenticate } from "auth";
+import config from "../config";
+
+export const authenticate = createAuthenticate(config.auth);
@@ -0,0 +1,1087 @@
+import type { Payment, Prisma, PrismaClient } from "@prisma/client";
+import { enqueueMessage, paymentMethods, type PaymentMethod } from "contracts";
+import Joi from "joi";
+import config from "./config";
+import {
+  postTransaction,
+  REVENUE_ACCOUNT,
+  roundMoney,
+  toCents
+} from "./ledger";
+import logger from "./middleware/logger";
+import type { PaymentProvider, PaymentProviders } from "./providers";
+
+/**
+ * pending            -> the provider is asked to hold the total, no answer yet
+ * authorized         -> the total is held, waiting for the order to be fulfilled
+ * capturing          -> the order was fulfilled, the provider is asked to
+ *                       take the total
+ * succeeded          -> the total was captured
+ * partially_refunded -> part of the captured total was given back
+ * refunded           -> all of the captured total was given back
+ * refunding          -> the provider is asked to give `pendingRefund` back
+ * failed             -> the provider declined the authorization
+ * voiding            -> the provider is asked to release the hold
+ * voided             -> the hold was released because the order was canceled
+ * expiring           -> the provider is asked to release a hold past its expiry
+ * expired            -> the hold was released because it was never captured
+ */
+export type PaymentStatus =
+  | "pending"
+  | "authorized"
+  | "capturing"
+  | "succeeded"
+  | "partially_refunded"
+  | "refunded"
+  | "refunding"
+  | "failed"
+  | "voiding"
+  | "voided"
+  | "expiring"
+  | "expired";
+
+// the provider was asked to release or give back money, not booked yet
+const IN_FLIGHT_STATUSES: PaymentStatus[] = [
+  "voiding",
+  "expiring",
+  "refunding"
+];
+
+export const CAPTURED_STATUSES: PaymentStatus[] = [
+  "succeeded",
+  "partially_refunded",
+  "refunded"
+];
+
+export type RefundRequest = {
+  // the rest of the payment if not set
+  amount?: number;
+  reason: string;
+};
+
+const refundRequestSchema = Joi.object<RefundRequest>().keys({
+  amount: Joi.number().greater(0).precision(2),
+  reason: Joi.string().max(500).default("requested by customer")
+});
+
+// thrown when the payment does not allow the operation,
+// e.g. a refund that exceeds what is left or a capture of a voided payment
+export class PaymentStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentStateError";
+  }
+}
+
+const getProvider = (
+  providers: PaymentProviders,
+  method: string
+): PaymentProvider => {
+  if (!paymentMethods.includes(method as PaymentMethod)) {
+    throw new Error(`Unknown payment method ${method}`);
+  }
+
+  return providers[method as PaymentMethod];
+};
+
+/**
+ * Locks the payment of the order until the transaction ends,
+ * so concurrent changes of the same payment run one after another.
+ */
+const lockPayment = async (
+  tx: Prisma.TransactionClient,
+  orderId: string
+): Promise<Payment | null> => {
+  await tx.$queryRaw`SELECT id FROM "Payment" WHERE "orderId" = ${orderId} FOR UPDATE`;
+
+  return tx.payment.findUnique({
+    where: {
+      orderId
+    }
+  });
+};
+
+/**
+ * Publishes payment.processed with the outcome of an authorization,
+ * for the saga of a v2 order. An order that was never authorized failed.
+ */
+export const publishAuthorization = async (
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  payment: Payment | undefined
+): Promise<void> => {
+  const succeeded = payment?.status === ("authorized" satisfies PaymentStatus);
+
+  await enqueueMessage(tx, config.app.name, {
+    message: "payment.processed",
+    data: {
+      orderId,
+      status: succeeded ? "success" : "failed",
+      amount: succeeded ? payment.amount : 0
+    }
+  });
+};
+
+/**
+ * Records a `pending` payment of the order total, the first step of an
+ * authorization. The provider is asked by `completeAuthorization` once
+ * the transaction committed.
+ * Returns undefined if the order does not exist.
+ * A second call for the same order returns the existing payment.
+ */
+export const requestAuthorization = async (
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  providers: PaymentProviders
+): Promise<Payment | undefined> => {
+  const existing = await tx.payment.findUnique({
+    where: {
+      orderId
+    }
+  });
+
+  if (existing) {
+    return existing;
+  }
+
+  const order = await tx.order.findUnique({
+    where: {
+      id: orderId
+    },
+    include: {
+      items: {
+        select: {
+          quantity: true,
+          unitPrice: true
+        }
+      }
+    }
+  });
+
+  if (!order) {
+    return undefined;
+  }
+
+  // throws for a payment method no provider handles
+  getProvider(providers, order.paymentMethod);
+
+  return tx.payment.create({
+    data: {
+      orderId,
+      userId: order.userId,
+      amount: roundMoney(
+        order.items.reduce(
+          (acc, item) => acc + item.unitPrice * item.quantity,
+          0
+        )
+      ),
+      status: "pending" satisfies PaymentStatus,
+      provider: order.paymentMethod
+    }
+  });
+};
+
+/**
+ * Asks the provider to hold the total of the order's `pending` payment,
+ * outside of any database transaction, and books the answer in a second one:
+ * the payment becomes `authorized`, or `failed` with the reason it was
+ * declined. With `publish` the outcome is published in the same transaction.
+ * Returns undefined if the order was never authorized, and the payment
+ * unchanged if it is not pending anymore. An approval that can not be booked,
+ * e.g. because the order was canceled meanwhile, is voided at the provider.
+ */
+export const completeAuthorization = async (
+  prisma: PrismaClient,
+  orderId: string,
+  providers: PaymentProviders,
+  { publish = false }: { publish?: boolean } = {}
+): Promise<Payment | undefined> => {
+  const pending = await prisma.payment.findUnique({
+    where: {
+      orderId
+    }
+  });
+
+  if (pending?.status !== ("pending" satisfies PaymentStatus)) {
+    return pending ?? undefined;
+  }
+
+  const provider = getProvider(providers, pending.provider);
+  const request = {
+    orderId,
+    userId: pending.userId,
+    amount: pending.amount
+  };
+  const result = await provider.authorize(request);
+
+  const { payment, booked } = await prisma.$transaction(async (tx) => {
+    const payment = await lockPayment(tx, orderId);
+
+    // canceled or booked by someone else since it was read
+    if (payment?.status !== ("pending" satisfies PaymentStatus)) {
+      return { payment: payment ?? pending, booked: false };
+    }
+
+    const reason = result.approved
+      ? await provider.checkFunds(tx, request)
+      : result.reason;
+
+    if (reason !== null) {
+      const failed = await tx.payment.update({
+        where: {
+          id: payment.id
+        },
+        data: {
+          status: "failed" satisfies PaymentStatus,
+          failureReason: reason
+        }
+      });
+
+      if (publish) {
+        await publishAuthorization(tx, orderId, failed);
+      }
+      return { payment: failed, booked: false };
+    }
+
+    const authorized = await tx.payment.update({
+      where: {
+        id: payment.id
+      },
+      data: {
+        status: "authorized" satisfies PaymentStatus,
+        providerReference: result.approved ? result.reference : null,
+        expiresAt: new Date(Date.now() + config.authorizations.ttl)
+      }
+    });
+
+    await postTransaction(
+      tx,
+      "authorization",
+      [
+        { account: provider.account(payment.userId), amount: -payment.amount },
+        {
+          account: provider.holdAccount(payment.userId),
+          amount: payment.amount
+        }
+      ],
+      { paymentId: payment.id, description: `order ${orderId}` }
+    );
+
+    if (publish) {
+      await publishAuthorization(tx, orderId, authorized);
+    }
+    return { payment: authorized, booked: true };
+  });
+
+  if (result.approved && !booked) {
+    // the provider would hold money that is never captured
+    try {
+      await provider.voidAuthorization(
+        {
+          ...pending,
+          providerReference: result.reference
+        },
+        `${pending.id}:void`
+      );
+    } catch (error) {
+      logger.error(
+        `Could not void the unbooked authorization of order ${orderId}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  return payment;
+};
+
+/**
+ * Holds the order total through the provider of the order's payment method
+ * until it is captured, voided or expires, both steps of an authorization
+ * at once. Returns undefined if the order does not exist.
+ * A declined payment is recorded as `failed` and books nothing.
+ * A second call for the same order returns the existing payment.
+ */
+export const authorizeOrder = async (
+  prisma: PrismaClient,
+  orderId: string,
+  providers: PaymentProviders
+): Promise<Payment | undefined> => {
+  const payment = await prisma.$transaction((tx) =>
+    requestAuthorization(tx, orderId, providers)
+  );
+
+  if (!payment) {
+    return undefined;
+  }
+
+  return completeAuthorization(prisma, orderId, providers);
+};
+
+/**
+ * Marks the authorized payment of the order as `capturing`, the first step
+ * of a capture. From then on it does not expire, `completeCapture` asks the
+ * provider and the sweeper asks again until the capture is booked.
+ * An expired authorization the sweeper did not void yet is still captured.
+ * Returns undefined if the order was never authorized, and the payment
+ * unchanged if it is captured or being captured already.
+ * Throws a `PaymentStateError` if the payment failed or was released.
+ */
+export const requestCapture = async (
+  tx: Prisma.TransactionClient,
+  orderId: string
+): Promise<Payment | undefined> => {
+  const payment = await lockPayment(tx, orderId);
+
+  if (!payment) {
+    return undefined;
+  }
+
+  if (
+    payment.status === ("capturing" satisfies PaymentStatus) ||
+    CAPTURED_STATUSES.includes(payment.status as PaymentStatus)
+  ) {
+    return payment;
+  }
+
+  if (payment.status !== ("authorized" satisfies PaymentStatus)) {
+    throw new PaymentStateError(
+      `Payment of order ${orderId} is ${payment.status}, it can not be captured`
+    );
+  }
+
+  return tx.payment.update({
+    where: {
+      id: payment.id
+    },
+    data: {
+      status: "capturing" satisfies PaymentStatus,
+      // due right away
+      nextCaptureAt: new Date()
+    }
+  });
+};
+
+/**
+ * Takes the held total of the order's `capturing` payment through its
+ * provider, outside of any database transaction, and books it in one.
+ * An attempt first claims the payment by moving a due `nextCaptureAt` into
+ * the future, only one of concurrent attempts gets the claim, and the
+ * provider applies a capture that is asked again with the same idempotency
+ * key once.
+ * Returns undefined if the order was never authorized, and the payment
+ * unchanged if it is not being captured, or its capture is not due because
+ * another attempt holds the claim or a failed one waits for its backoff.
+ * Throws if the provider failed, the sweeper asks again after a backoff.
+ */
+export const completeCapture = async (
+  prisma: PrismaClient,
+  orderId: string,
+  providers: PaymentProviders
+): Promise<Payment | undefined> => {
+  const capturing = await prisma.payment.findUnique({
+    where: {
+      orderId
+    }
+  });
+
+  if (capturing?.status !== ("capturing" satisfies PaymentStatus)) {
+    return capturing ?? undefined;
+  }
+
+  // the claim runs out if the attempt is cut off, the sweeper takes over
+  const now = Date.now();
+  const claimedUntil = new Date(now + config.captures.retryInterval);
+  const { count } = await prisma.payment.updateMany({
+    where: {
+      id: capturing.id,
+      status: "capturing" satisfies PaymentStatus,
+      nextCaptureAt: {
+        lte: new Date(now)
+      }
+    },
+    data: {
+      nextCaptureAt: claimedUntil
+    }
+  });
+
+  if (count === 0) {
+    return capturing;
+  }
+
+  const provider = getProvider(providers, capturing.provider);
+
+  try {
+    await provider.capture(capturing, `${capturing.id}:capture`);
+  } catch (error) {
+    const delay = Math.min(
+      config.captures.retryInterval * 2 ** capturing.captureAttempts,
+      config.captures.maxRetryInterval
+    );
+
+    await prisma.payment.updateMany({
+      where: {
+        id: capturing.id,
+        status: "capturing" satisfies PaymentStatus,
+        nextCaptureAt: claimedUntil
+      },
+      data: {
+        captureAttempts: {
+          increment: 1
+        },
+        nextCaptureAt: new Date(Date.now() + delay)
+      }
+    });
+
+    throw error;
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const payment = await lockPayment(tx, orderId);
+
+    // booked by someone else since it was read
+    if (payment?.status !== ("capturing" satisfies PaymentStatus)) {
+      return payment ?? capturing;
+    }
+
+    await postTransaction(
+      tx,
+      "capture",
+      [
+        {
+          account: provider.holdAccount(payment.userId),
+          amount: -payment.amount
+        },
+        { account: REVENUE_ACCOUNT, amount: payment.amount }
+      ],
+      { paymentId: payment.id, description: `order ${orderId}` }
+    );
+
+    return tx.payment.update({
+      where: {
+        id: payment.id
+      },
+      data: {
+        status: "succeeded" satisfies PaymentStatus,
+        capturedAt: new Date(),
+        nextCaptureAt: null
+      }
+    });
+  });
+};
+
+/**
+ * Marks an authorized payment as `voiding` or `expiring`, the first step of
+ * releasing its hold. Call it with the payment locked.
+ */
+const requestRelease = (
+  tx: Prisma.TransactionClient,
+  payment: Payment,
+  status: "voiding" | "expiring",
+  reason: string
+): Promise<Payment> =>
+  tx.payment.update({
+    where: {
+      id: payment.id
+    },
+    data: {
+      status: status satisfies PaymentStatus,
+      pendingReason: reason
+    }
+  });
+
+/**
+ * Asks the provider to release the hold of the order's `voiding` or
+ * `expiring` payment, outside of any database transaction, and books the
+ * release in one: the money goes back to where it came from and the payment
+ * becomes `voided` or `expired`. An expiry publishes payment.voided, so the
+ * saga cancels the order.
+ * Returns undefined if the order was never authorized, and the payment
+ * unchanged if it is not being released. Throws if the provider failed,
+ * the payment stays claimed and the sweeper asks again.
+ */
+const completeRelease = async (
+  prisma: PrismaClient,
+  orderId: string,
+  providers: PaymentProviders
+): Promise<Payment | undefined> => {
+  const releasing = await prisma.payment.findUnique({
+    where: {
+      orderId
+    }
+  });
+
+  if (
+    releasing?.status !== ("voiding" satisfies PaymentStatus) &&
+    releasing?.status !== ("expiring" satisfies PaymentStatus)
+  ) {
+    return releasing ?? undefined;
+  }
+
+  const provider = getProvider(providers, releasing.provider);
+
+  await provider.voidAuthorization(releasing, `${releasing.id}:void`);
+
+  return prisma.$transaction(async (tx) => {
+    const payment = await lockPayment(tx, orderId);
+
+    // booked by someone else since it was read
+    if (payment?.status !== releasing.status) {
+      return payment ?? releasing;
+    }
+
+    const expired = payment.status === ("expiring" satisfies PaymentStatus);
+
+    await postTransaction(
+      tx,
+      "void",
+      [
+        {
+          account: provider.holdAccount(payment.userId),
+          amount: -payment.amount
+        },
+        { account: provider.account(payment.userId), amount: payment.amount }
+      ],
+      { paymentId: payment.id, description: payment.pendingReason }
+    );
+
+    if (expired) {
+      await enqueueMessage(tx, config.app.name, {
+        message: "payment.voided",
+        data: {
+          orderId,
+          amount: payment.amount,
+          reason: "Payment authorization expired"
+        }
+      });
+    }
+
+    return tx.payment.update({
+      where: {
+        id: payment.id
+      },
+      data: {
+        status: (expired ? "expired" : "voided") satisfies PaymentStatus,
+        pendingReason: null
+      }
+    });
+  });
+};
+
+/**
+ * Voids the authorization of the order's payment, the reason is kept with
+ * the ledger entries. Returns undefined if the order was never authorized,
+ * and the payment unchanged if it is released already.
+ * Throws a `PaymentStateError` if the payment failed or was captured.
+ */
+export const voidPayment = async (
+  prisma: PrismaClient,
+  orderId: string,
+  reason: string,
+  providers: PaymentProviders
+): Promise<Payment | undefined> => {
+  const payment = await prisma.$transaction(async (tx) => {
+    const payment = await lockPayment(tx, orderId);
+
+    if (!payment) {
+      return undefined;
+    }
+
+    if (
+      payment.status === ("voided" satisfies PaymentStatus) ||
+      payment.status === ("expired" satisfies PaymentStatus) ||
+      payment.status === ("voiding" satisfies PaymentStatus) ||
+      payment.status === ("expiring" satisfies PaymentStatus)
+    ) {
+      return payment;
+    }
+
+    if (payment.status !== ("authorized" satisfies PaymentStatus)) {
+      throw new PaymentStateError(
+        `Payment of order ${orderId} is ${payment.status}, it can not be voided`
+      );
+    }
+
+    return requestRelease(tx, payment, "voiding", reason);
+  });
+
+  if (!payment) {
+    return undefined;
+  }
+
+  return completeRelease(prisma, orderId, providers);
+};
+
+/**
+ * Validates the body of a refund request.
+ */
+export const parseRefundRequest = (
+  body: unknown
+):
+  | { request: RefundRequest; error?: never }
+  | { request?: never; error: string } => {
+  const { value, error } = refundRequestSchema
+    .prefs({ errors: { label: "path" } })
+    .validate(body ?? {}, { abortEarly: false, stripUnknown: true });
+
+  if (error) {
+    return {
+      error: error.details.map((detail) => detail.message).join(", ")
+    };
+  }
+
+  return { request: value };
+};
+
+/**
+ * Marks the order's captured payment as `refunding` `amount`, or all of it
+ * that is not refunded yet, the first step of a refund. With `publish` the
+ * booked refund publishes payment.refunded.
+ * Returns undefined if the order was never charged or its payment belongs
+ * to another user than `userId`.
+ * Throws a `PaymentStateError` if the payment was not captured, another
+ * refund is not booked yet, it is refunded already or `amount` exceeds
+ * what is left.
+ */
+export const requestRefund = async (
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  userId: string,
+  { amount, reason }: RefundRequest,
+  { publish }: { publish: boolean }
+): Promise<Payment | undefined> => {
+  const payment = await lockPayment(tx, orderId);
+
+  // payments of other users are reported as not found
+  if (!payment || payment.userId !== userId) {
+    return undefined;
+  }
+
+  if (payment.status === ("refunding" satisfies PaymentStatus)) {
+    throw new PaymentStateError(
+      `A refund of order ${orderId} is still in progress`
+    );
+  }
+
+  if (!CAPTURED_STATUSES.includes(payment.status as PaymentStatus)) {
+    throw new PaymentStateError(
+      `Payment of order ${orderId} is ${payment.status}, only captured payments are refunded`
+    );
+  }
+
+  const refundable = roundMoney(payment.amount - payment.refundedAmount);
+  const refund = roundMoney(amount ?? refundable);
+
+  if (toCents(refundable) <= 0) {
+    throw new PaymentStateError(
+      `Payment of order ${orderId} is refunded already`
+    );
+  }
+  if (toCents(refund) > toCents(refundable)) {
+    throw new PaymentStateError(
+      `Refund of ${refund} exceeds the refundable ${refundable} of order ${orderId}`
+    );
+  }
+
+  return tx.payment.update({
+    where: {
+      id: payment.id
+    },
+    data: {
+      status: "refunding" satisfies PaymentStatus,
+      pendingRefund: refund,
+      pendingReason: reason,
+      publishRefund: publish
+    }
+  });
+};
+
+/**
+ * Gives the `pendingRefund` of the order's `refunding` payment back through
+ * the provider that charged it, outside of any database transaction, and
+ * books it in one, with payment.refunded if the refund was requested so.
+ * Returns undefined if the order was never charged, and the payment
+ * unchanged if it is not being refunded. Throws if the provider failed,
+ * the payment stays claimed and the sweeper asks again.
+ */
+const completeRefund = async (
+  prisma: PrismaClient,
+  orderId: string,
+  providers: PaymentProviders
+): Promise<Payment | undefined> => {
+  const refunding = await prisma.payment.findUnique({
+    where: {
+      orderId
+    }
+  });
+
+  if (refunding?.status !== ("refunding" satisfies PaymentStatus)) {
+    return refunding ?? undefined;
+  }
+
+  const provider = getProvider(providers, refunding.provider);
+  const refund = refunding.pendingRefund ?? 0;
+
+  // refunds run one after another, what was refunded before tells them apart
+  await provider.refund(
+    refunding,
+    refund,
+    `${refunding.id}:refund:${toCents(refunding.refundedAmount)}`
+  );
+
+  return prisma.$transaction(async (tx) => {
+    const payment = await lockPayment(tx, orderId);
+
+    // booked by someone else since it was read
+    if (payment?.status !== ("refunding" satisfies PaymentStatus)) {
+      return payment ?? refunding;
+    }
+
+    await postTransaction(
+      tx,
+      "refund",
+      [
+        { account: provider.account(payment.userId), amount: refund },
+        { account: REVENUE_ACCOUNT, amount: -refund }
+      ],
+      { paymentId: payment.id, description: payment.pendingReason }
+    );
+
+    const refundedAmount = roundMoney(payment.refundedAmount + refund);
+    const fullyRefunded = toCents(refundedAmount) >= toCents(payment.amount);
+
+    if (payment.publishRefund) {
+      await enqueueMessage(tx, config.app.name, {
+        message: "payment.refunded",
+        data: {
+          orderId,
+          amount: refund,
+          refundedAmount,
+          fullyRefunded,
+          reason: payment.pendingReason ?? "refunded"
+        }
+      });
+    }
+
+    return tx.payment.update({
+      where: {
+        id: payment.id
+      },
+      data: {
+        refundedAmount,
+        status: (fullyRefunded
+          ? "refunded"
+          : "partially_refunded") satisfies PaymentStatus,
+        pendingRefund: null,
+        pendingReason: null,
+        publishRefund: false
+      }
+    });
+  });
+};
+
+/**
+ * Refunds `amount` of the order's captured payment, or all of it that is not
+ * refunded yet, both steps of a refund at once, and publishes
+ * payment.refunded. The reason is kept with the ledger entries.
+ * Returns undefined if the order was never charged or its payment belongs
+ * to another user than `userId`.
+ * Throws a `PaymentStateError` if the payment was not captured, another
+ * refund is not booked yet, it is refunded already or `amount` exceeds
+ * what is left.
+ */
+export const refundPayment = async (
+  prisma: PrismaClient,
+  orderId: string,
+  userId: string,
+  request: RefundRequest,
+  providers: PaymentProviders
+): Promise<{ payment: Payment; refunded: number } | undefined> => {
+  const refunding = await prisma.$transaction((tx) =>
+    requestRefund(tx, orderId, userId, request, { publish: true })
+  );
+
+  if (!refunding) {
+    return undefined;
+  }
+
+  const payment = await completeRefund(prisma, orderId, providers);
+
+  return payment && { payment, refunded: refunding.pendingRefund ?? 0 };
+};
+
+/**
+ * Claims what a canceled order took back: its authorization is marked
+ * `voiding`, or up to `amount` of a captured payment `refunding`, without
+ * publishing payment.refunded. `resumePayment` asks the provider.
+ * An order that was not charged yet gets a `voided` payment of 0, so a stock
+ * check that is still on its way does not authorize it anymore, and a pending
+ * authorization is voided before its answer is booked.
+ * Returns undefined if the order does not exist.
+ */
+export const requestCompensation = async (
+  tx: Prisma.TransactionClient,
+  orderId: string,
+  amount: number,
+  reason: string
+): Promise<Payment | undefined> => {
+  const payment = await lockPayment(tx, orderId);
+
+  if (!payment) {
+    const order = await tx.order.findUnique({
+      where: {
+        id: orderId
+      },
+      select: {
+        userId: true,
+        paymentMethod: true
+      }
+    });
+
+    if (!order) {
+      return undefined;
+    }
+
+    return tx.payment.create({
+      data: {
+        orderId,
+        userId: order.userId,
+        amount: 0,
+        status: "voided" satisfies PaymentStatus,
+        failureReason: reason,
+        provider: order.paymentMethod
+      }
+    });
+  }
+
+  if (payment.status === ("authorized" satisfies PaymentStatus)) {
+    return requestRelease(tx, payment, "voiding", reason);
+  }
+
+  // the provider has not answered yet, its answer is not booked anymore
+  if (payment.status === ("pending" satisfies PaymentStatus)) {
+    return tx.payment.update({
+      where: {
+        id: payment.id
+      },
+      data: {
+        status: "voided" satisfies PaymentStatus,
+        failureReason: reason
+      }
+    });
+  }
+
+  // a customer refund is not booked yet, the message is retried
+  if (payment.status === ("refunding" satisfies PaymentStatus)) {
+    throw new PaymentStateError(
+      `A refund of order ${orderId} is still in progress`
+    );
+  }
+
+  const refundable = roundMoney(payment.amount - payment.refundedAmount);
+
+  // failed, released, being released or refunded already
+  if (
+    !CAPTURED_STATUSES.includes(payment.status as PaymentStatus) ||
+    toCents(amount) <= 0 ||
+    toCents(refundable) <= 0
+  ) {
+    return payment;
+  }
+
+  return requestRefund(
+    tx,
+    orderId,
+    payment.userId,
+    { amount: Math.min(amount, refundable), reason },
+    { publish: false }
+  );
+};
+
+/**
+ * Finishes what the provider of the order's payment was asked for and is not
+ * booked yet, a release or a refund. Returns the payment unchanged if there
+ * is nothing to finish. Throws if the provider failed.
+ */
+export const resumePayment = async (
+  prisma: PrismaClient,
+  orderId: string,
+  providers: PaymentProviders
+): Promise<Payment | undefined> => {
+  const payment = await completeRelease(prisma, orderId, providers);
+
+  return payment?.status === ("refunding" satisfies PaymentStatus)
+    ? completeRefund(prisma, orderId, providers)
+    : payment;
+};
+
+/**
+ * Periodically voids authorizations past their expiry and publishes
+ * payment.voided for each, so the order saga cancels the order. Pending
+ * authorizations whose completion was cut off, e.g. by a restart, are
+ * asked again and their outcome is published, releases and refunds whose
+ * provider call failed or was cut off are asked again and booked, and
+ * captures that are due are asked again.
+ * A sweep is skipped while the previous one is still running.
+ */
+export const startAuthorizationSweeper = (
+  prisma: PrismaClient,
+  providers: PaymentProviders
+): NodeJS.Timeout => {
+  let sweeping = false;
+
+  return setInterval(async () => {
+    if (sweeping) {
+      return;
+    }
+    sweeping = true;
+
+    try {
+      const payments = await prisma.payment.findMany({
+        where: {
+          status: "authorized" satisfies PaymentStatus,
+          expiresAt: {
+            lte: new Date()
+          }
+        },
+        select: {
+          orderId: true
+        },
+        take: config.authorizations.batchSize
+      });
+
+      let count = 0;
+
+      for (const { orderId } of payments) {
+        try {
+          const expiring = await prisma.$transaction(async (tx) => {
+            const payment = await lockPayment(tx, orderId);
+
+            // captured or voided since it was selected
+            if (payment?.status !== ("authorized" satisfies PaymentStatus)) {
+              return false;
+            }
+
+            await requestRelease(
+              tx,
+              payment,
+              "expiring",
+              "authorization expired"
+            );
+            return true;
+          });
+
+          if (expiring) {
+            await completeRelease(prisma, orderId, providers);
+            count++;
+          }
+        } catch (error) {
+          // the next sweep tries again
+          if (error instanceof Error) {
+            logger.error(
+              `Could not expire the authorization of order ${orderId}: ${error.message}`
+            );
+          }
+        }
+      }
+
+      if (count > 0) {
+        logger.info(`Expired ${count} payment authorizations`);
+      }
+
+      const stale = await prisma.payment.findMany({
+        where: {
+          status: "pending" satisfies PaymentStatus,
+          createdAt: {
+            lte: new Date(Date.now() - config.authorizations.pendingTimeout)
+          }
+        },
+        select: {
+          orderId: true
+        },
+        take: config.authorizations.batchSize
+      });
+
+      for (const { orderId } of stale) {
+        try {
+          await completeAuthorization(prisma, orderId, providers, {
+            publish: true
+          });
+          logger.info(`Resumed the pending authorization of order ${orderId}`);
+        } catch (error) {
+          // the next sweep tries again
+          if (error instanceof Error) {
+            logger.error(
+              `Could not resume the authorization of order ${orderId}: ${error.message}`
+            );
+          }
+        }
+      }
+
+      const inFlight = await prisma.payment.findMany({
+        where: {
+          status: {
+            in: IN_FLIGHT_STATUSES
+          },
+          updatedAt: {
+            lte: new Date(Date.now() - config.authorizations.pendingTimeout)
+          }
+        },
+        select: {
+          orderId: true,
+          status: true
+        },
+        take: config.authorizations.batchSize
+      });
+
+      for (const { orderId, status } of inFlight) {
+        try {
+          await resumePayment(prisma, orderId, providers);
+          logger.info(`Resumed the ${status} payment of order ${orderId}`);
+        } catch (error) {
+          // the next sweep tries again
+          if (error instanceof Error) {
+            logger.error(
+              `Could not resume the ${status} payment of order ${orderId}: ${error.message}`
+            );
+          }
+        }
+      }
+
+      const captures = await prisma.payment.findMany({
+        where: {
+          status: "capturing" satisfies PaymentStatus,
+          nextCaptureAt: {
+            lte: new Date()
+          }
+        },
+        select: {
+          orderId: true,
+          captureAttempts: true
+        },
+        take: config.authorizations.batchSize
+      });
+
+      for (const { orderId, captureAttempts } of captures) {
+        try {
+          const payment = await completeCapture(prisma, orderId, providers);
+
+          if (payment?.status === ("succeeded" satisfies PaymentStatus)) {
+            logger.info(`Captured the payment of order ${orderId} on retry`);
+          }
+        } catch (error) {
+          // asked again after a backoff, the order is fulfilled but not paid
+          if (error instanceof Error) {
+            logger.error(
+              `Could not capture the payment of order ${orderId} after ${captureAttempts + 1} attempts: ${error.message}`
+            );
+          }
+        }
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        logger.error(error.message);
+      }
+    } finally {
+      sweeping = false;
+    }
+  }, config.authorizations.sweepInterval);
+};
@@ -0,0 +1,153 @@
+import { randomUUID } from "crypto";
+import { setTimeout as sleep } from "timers/promises";
+import type { Payment, Prisma } from "@prisma/client";
+import type { PaymentMethod } from "contracts";
+import {
+  CARD_GATEWAY_ACCOUNT,
+  CARD_GATEWAY_HOLDS_ACCOUNT,
+  getWalletBalance,
+  holdAccount,
+  toCents,
+  userAccount
+} from "./ledger";
+
+export type AuthorizationRequest = {
+  orderId: string;
+  userId: string;
+  amount: number;
+};
+
+export type AuthorizationResult =
+  // reference is the id of the authorization at the provider, if it has one
+  | { approved: true; reference: string | null }
+  // reason ends up as the failure reason of the payment
+  | { approved: false; reason: string };
+
+export type PaymentProvider = {
+  // ledger account an authorization takes the money from
+  // and a void or refund gives it back to
+  account: (userId: string) => string;
+  // ledger account authorized money waits in until it is captured or voided
+  holdAccount: (userId: string) => string;
+  // asks the provider to hold the money, nothing is booked yet;
+  // called outside of any database transaction, a gateway may take seconds
+  authorize: (request: AuthorizationRequest) => Promise<AuthorizationResult>;
+  // runs in the transaction that books an approved authorization,
+  // returns why the ledger declines it, or null
+  checkFunds: (
+    tx: Prisma.TransactionClient,
+    request: AuthorizationRequest
+  ) => Promise<string | null>;
+  // the following throw if the provider failed
+  // takes the held money of the payment, a call that is retried
+  // with the same idempotency key is applied once
+  capture: (payment: Payment, idempotencyKey: string) => Promise<void>;
+  // releases the held money of the payment, a call that is retried
+  // with the same idempotency key is applied once
+  voidAuthorization: (
+    payment: Payment,
+    idempotencyKey: string
+  ) => Promise<void>;
+  // gives `amount` of the captured payment back, a call that is retried
+  // with the same idempotency key is applied once
+  refund: (
+    payment: Payment,
+    amount: number,
+    idempotencyKey: string
+  ) => Promise<void>;
+};
+
+export type PaymentProviders = Record<PaymentMethod, PaymentProvider>;
+
+export type SimulatedCardGatewayOptions = {
+  // latency of a call is drawn uniformly between these
+  minLatency: number;
+  maxLatency: number;
+  // share of the authorizations that are declined, between 0 and 1
+  declineRate: number;
+  // share of the calls that never answer, between 0 and 1
+  timeoutRate: number;
+  // how long a call is waited for
+  timeout: number;
+};
+
+// thrown when the provider did not answer a capture, void or refund in time
+export class PaymentProviderTimeoutError extends Error {
+  constructor(public readonly provider: string) {
+    super(`${provider} did not answer in time`);
+    this.name = "PaymentProviderTimeoutError";
+  }
+}
+
+/**
+ * Pays from the user's balance, declined when the balance does not cover
+ * the amount. The user stays locked until the booking transaction ends.
+ * Everything else happens in the ledger only.
+ */
+export const walletProvider: PaymentProvider = {
+  account: userAccount,
+  holdAccount,
+  authorize: async () => ({ approved: true, reference: null }),
+  checkFunds: async (tx, { userId, amount }) => {
+    const balance = await getWalletBalance(tx, userId);
+
+    return toCents(balance) < toCents(amount) ? "insufficient_balance" : null;
+  },
+  capture: async () => {},
+  voidAuthorization: async () => {},
+  refund: async () => {}
+};
+
+/**
+ * A card gateway that runs in-process and behaves like a slow external one:
+ * every call waits a random latency, some authorizations are declined and
+ * some calls never answer. An authorization that timed out counts as
+ * declined, the simulated gateway never holds money without answering.
+ * Captures, voids and refunds are not declined but can time out.
+ */
+export const createSimulatedCardGateway = ({
+  minLatency,
+  maxLatency,
+  declineRate,
+  timeoutRate,
+  timeout
+}: SimulatedCardGatewayOptions): PaymentProvider => {
+  // waits like a call to the gateway would, false if it did not answer in time
+  const call = async (): Promise<boolean> => {
+    const latency =
+      Math.random() < timeoutRate
+        ? Infinity
+        : minLatency + Math.random() * (maxLatency - minLatency);
+
+    await sleep(Math.min(latency, timeout));
+    return latency < timeout;
+  };
+
+  // throws if the gateway did not answer
+  const callOrThrow = async (): Promise<void> => {
+    if (!(await call())) {
+      throw new PaymentProviderTimeoutError("card gateway");
+    }
+  };
+
+  return {
+    account: () => CARD_GATEWAY_ACCOUNT,
+    holdAccount: () => CARD_GATEWAY_HOLDS_ACCOUNT,
+    authorize: async () => {
+      if (!(await call())) {
+        return { approved: false, reason: "gateway_timeout" };
+      }
+
+      if (Math.random() < declineRate) {
+        return { approved: false, reason: "card_declined" };
+      }
+
+      return { approved: true, reference: `sim_${randomUUID()}` };
+    },
+    // the gateway holds the money, the ledger does not check it
+    checkFunds: async () => null,
+    capture: callOrThrow,
+    voidAuthorization: callOrThrow,
+    refund: callOrThrow
+  };
+};
@@ -0,0 +1,10 @@
+import { startTracing } from "observability";
+import config from "./config";
+
+// imported first in index.ts, so express, http and Prisma are instrumented
+const tracing = startTracing({
+  serviceName: config.app.name,
+  ...config.tracing
+});
+
+export default tracing;
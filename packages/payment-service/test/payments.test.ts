@@ -0,0 +1,251 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { setTimeout as sleep } from "timers/promises";
+import { PrismaClient } from "@prisma/client";
+import { holdAccount, userAccount } from "../src/ledger";
+import {
+  authorizeOrder,
+  completeCapture,
+  PaymentStateError,
+  refundPayment,
+  requestCapture,
+  voidPayment
+} from "../src/payments";
+import { walletProvider, type PaymentProviders } from "../src/providers";
+
+const skip =
+  !process.env.TEST_DATABASE_URL &&
+  "set TEST_DATABASE_URL to run the database tests";
+
+describe("payment ledger", { skip }, () => {
+  let prisma: PrismaClient;
+
+  before(() => {
+    prisma = new PrismaClient();
+  });
+
+  after(async () => {
+    await prisma.$disconnect();
+  });
+
+  // a wallet whose captures take a while and can be made to fail
+  const createProviders = (
+    { fail }: { fail: boolean } = { fail: false }
+  ): { providers: PaymentProviders; captures: string[] } => {
+    const captures: string[] = [];
+    const wallet = {
+      ...walletProvider,
+      capture: async (_payment: unknown, idempotencyKey: string) => {
+        await sleep(50);
+        if (fail) {
+          throw new Error("provider unavailable");
+        }
+        captures.push(idempotencyKey);
+      }
+    };
+
+    return { providers: { wallet, card: wallet }, captures };
+  };
+
+  const createOrder = async (
+    balance: number,
+    unitPrice: number,
+    quantity: number
+  ): Promise<{ orderId: string; userId: string }> => {
+    const user = await prisma.user.create({ data: { balance } });
+    const product = await prisma.products.create({
+      data: { stockAmount: quantity }
+    });
+    const order = await prisma.order.create({
+      data: {
+        userId: user.id,
+        items: { create: { productId: product.id, quantity, unitPrice } }
+      }
+    });
+
+    return { orderId: order.id, userId: user.id };
+  };
+
+  const getBalance = async (account: string): Promise<number> => {
+    const { _sum } = await prisma.ledgerEntry.aggregate({
+      where: { account },
+      _sum: { amount: true }
+    });
+
+    return Math.round((_sum.amount ?? 0) * 100);
+  };
+
+  // every ledger transaction of a payment sums up to zero
+  const assertBalanced = async (orderId: string): Promise<void> => {
+    const payment = await prisma.payment.findUniqueOrThrow({
+      where: { orderId }
+    });
+    const transactions = await prisma.ledgerEntry.groupBy({
+      by: ["transactionId"],
+      where: { paymentId: payment.id },
+      _sum: { amount: true }
+    });
+
+    for (const { _sum } of transactions) {
+      assert.equal(Math.round((_sum.amount ?? 0) * 100), 0);
+    }
+  };
+
+  const capture = async (orderId: string, providers: PaymentProviders) => {
+    await prisma.$transaction((tx) => requestCapture(tx, orderId));
+    return completeCapture(prisma, orderId, providers);
+  };
+
+  it("moves the held total to revenue when it is captured", async () => {
+    const { providers } = createProviders();
+    const { orderId, userId } = await createOrder(100, 10.1, 3);
+
+    const authorized = await authorizeOrder(prisma, orderId, providers);
+    assert.equal(authorized?.status, "authorized");
+    assert.equal(await getBalance(userAccount(userId)), 6970);
+    assert.equal(await getBalance(holdAccount(userId)), 3030);
+
+    const payment = await capture(orderId, providers);
+    assert.equal(payment?.status, "succeeded");
+    assert.equal(payment?.nextCaptureAt, null);
+    assert.equal(await getBalance(userAccount(userId)), 6970);
+    assert.equal(await getBalance(holdAccount(userId)), 0);
+
+    const user = await prisma.user.findUniqueOrThrow({ where: { id: userId } });
+    assert.equal(user.balance, 69.7);
+    assert.equal(user.heldBalance, 0);
+    await assertBalanced(orderId);
+  });
+
+  it("captures once when attempts race", async () => {
+    const { providers, captures } = createProviders();
+    const { orderId, userId } = await createOrder(100, 20, 1);
+
+    await authorizeOrder(prisma, orderId, providers);
+    await prisma.$transaction((tx) => requestCapture(tx, orderId));
+
+    await Promise.all(
+      Array.from({ length: 5 }, () =>
+        completeCapture(prisma, orderId, providers)
+      )
+    );
+
+    const payment = await prisma.payment.findUniqueOrThrow({
+      where: { orderId }
+    });
+    assert.equal(payment.status, "succeeded");
+    assert.deepEqual(captures, [`${payment.id}:capture`]);
+    assert.equal(
+      await prisma.ledgerEntry.count({
+        where: { paymentId: payment.id, kind: "capture" }
+      }),
+      2
+    );
+    assert.equal(await getBalance(userAccount(userId)), 8000);
+    assert.equal(await getBalance(holdAccount(userId)), 0);
+  });
+
+  it("asks again after a backoff when a capture fails", async () => {
+    const { providers } = createProviders({ fail: true });
+    const { orderId, userId } = await createOrder(100, 20, 1);
+
+    await authorizeOrder(prisma, orderId, providers);
+    await assert.rejects(capture(orderId, providers), /provider unavailable/);
+
+    const failed = await prisma.payment.findUniqueOrThrow({
+      where: { orderId }
+    });
+    assert.equal(failed.status, "capturing");
+    assert.equal(failed.captureAttempts, 1);
+    assert.ok(failed.nextCaptureAt! > new Date());
+    // the money stays held
+    assert.equal(await getBalance(holdAccount(userId)), 2000);
+
+    // a capturing payment does not expire and is not voided anymore
+    await assert.rejects(
+      voidPayment(prisma, orderId, "canceled", providers),
+      PaymentStateError
+    );
+
+    // not asked again before the backoff is over
+    const waiting = await completeCapture(
+      prisma,
+      orderId,
+      createProviders().providers
+    );
+    assert.equal(waiting?.status, "capturing");
+
+    await prisma.payment.update({
+      where: { orderId },
+      data: { nextCaptureAt: new Date() }
+    });
+    const payment = await completeCapture(
+      prisma,
+      orderId,
+      createProviders().providers
+    );
+    assert.equal(payment?.status, "succeeded");
+    assert.equal(await getBalance(holdAccount(userId)), 0);
+    await assertBalanced(orderId);
+  });
+
+  it("gives partial and full refunds back to the wallet", async () => {
+    const { providers } = createProviders();
+    const { orderId, userId } = await createOrder(100, 10.1, 3);
+
+    await authorizeOrder(prisma, orderId, providers);
+    await capture(orderId, providers);
+
+    const partial = await refundPayment(
+      prisma,
+      orderId,
+      userId,
+      { amount: 10.1, reason: "damaged" },
+      providers
+    );
+    assert.equal(partial?.refunded, 10.1);
+    assert.equal(partial?.payment.status, "partially_refunded");
+    assert.equal(await getBalance(userAccount(userId)), 7980);
+
+    await assert.rejects(
+      refundPayment(
+        prisma,
+        orderId,
+        userId,
+        { amount: 20.21, reason: "too much" },
+        providers
+      ),
+      PaymentStateError
+    );
+
+    const rest = await refundPayment(
+      prisma,
+      orderId,
+      userId,
+      { reason: "returned" },
+      providers
+    );
+    assert.equal(rest?.refunded, 20.2);
+    assert.equal(rest?.payment.status, "refunded");
+    assert.equal(rest?.payment.refundedAmount, 30.3);
+    assert.equal(await getBalance(userAccount(userId)), 10000);
+    assert.equal(await getBalance(holdAccount(userId)), 0);
+    await assertBalanced(orderId);
+  });
+
+  it("does not capture a voided authorization", async () => {
+    const { providers, captures } = createProviders();
+    const { orderId, userId } = await createOrder(100, 20, 1);
+
+    await authorizeOrder(prisma, orderId, providers);
+    await voidPayment(prisma, orderId, "canceled", providers);
+
+    await assert.rejects(
+      prisma.$transaction((tx) => requestCapture(tx, orderId)),
+      PaymentStateError
+    );
+    assert.deepEqual(captures, []);
+    assert.equal(await getBalance(userAccount(userId)), 10000);
+    await assertBalanced(orderId);
+  });
+});
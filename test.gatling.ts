@@ -13,7 +13,7 @@
 // const GET_ORDER_ENDPOINT = "/api/v1/order/${orderId}";
 // const GET_TRACK_ENDPOINT = "/api/v1/track/${trackerId}";
 // const REQUEST_BODY =
-//   '{ \"productId\": \"7d1f45d2-80d9-4ee0-a99d-ca180bd6d536\" }';
+//   '{ \"items\": [{ \"productId\": \"7d1f45d2-80d9-4ee0-a99d-ca180bd6d536\", \"quantity\": 1 }] }';
 
 // export default {
 //   setUp: (setUp) => {